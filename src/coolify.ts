@@ -1,33 +1,229 @@
 import type { Logger } from "./logger";
-import type { Resource } from "./manifest";
+import type {
+  BasicAuth,
+  ComposeResource,
+  Database,
+  GitResource,
+  Hooks,
+  Limits,
+  Resource,
+  ScheduledTask,
+  Storage,
+} from "./manifest";
 import type {
   CoolifyApiError,
   CoolifyApplication,
+  CoolifyCreateComposeAppOptions,
+  CoolifyCreateDatabaseOptions,
   CoolifyCreateDockerImageAppOptions,
+  CoolifyCreateGitAppOptions,
+  CoolifyCreateStorageOptions,
   CoolifyCreateUpdateAppResponse,
+  CoolifyDatabase,
+  CoolifyDatabaseType,
   CoolifyDeployResponse,
   CoolifyEnvironment,
   CoolifyEnvVar,
   CoolifyEnvVarResponse,
   CoolifyInitiateDeployResponse,
+  CoolifyScheduledTask,
+  CoolifyScheduledTaskOptions,
   CoolifyServer,
+  CoolifyStorage,
+  CoolifyStorageListResponse,
   CoolifyUpdateAppOptions,
+  CoolifyUpdateDatabaseOptions,
+  CoolifyUpdateStorageOptions,
 } from "./types";
 
 export type {
   CoolifyApiError,
   CoolifyApplication,
+  CoolifyCreateComposeAppOptions,
+  CoolifyCreateDatabaseOptions,
   CoolifyCreateDockerImageAppOptions,
+  CoolifyCreateGitAppOptions,
+  CoolifyCreateStorageOptions,
   CoolifyCreateUpdateAppResponse,
+  CoolifyDatabase,
+  CoolifyDatabaseType,
   CoolifyDeployResponse,
   CoolifyEnvironment,
   CoolifyEnvVar,
   CoolifyEnvVarResponse,
   CoolifyInitiateDeployResponse,
+  CoolifyScheduledTask,
+  CoolifyScheduledTaskOptions,
   CoolifyServer,
+  CoolifyStorage,
+  CoolifyStorageListResponse,
   CoolifyUpdateAppOptions,
+  CoolifyUpdateDatabaseOptions,
+  CoolifyUpdateStorageOptions,
 } from "./types";
 
+/**
+ * Maps a manifest `limits` block to the Coolify `limits_*` fields. Unset limits are left out.
+ */
+function buildLimitOptions(limits: Limits): Partial<CoolifyUpdateAppOptions> {
+  return {
+    limits_memory: limits.memory,
+    limits_memory_swap: limits.memorySwap,
+    limits_memory_swappiness: limits.memorySwappiness,
+    limits_memory_reservation: limits.memoryReservation,
+    limits_cpus: limits.cpus,
+    limits_cpuset: limits.cpuset,
+    limits_cpu_shares: limits.cpuShares,
+  };
+}
+
+/**
+ * Maps a manifest `hooks` block to the Coolify deployment command fields.
+ * A hook missing from a declared block is cleared so removing it from the manifest removes it in Coolify.
+ */
+function buildHookOptions(hooks: Hooks): Partial<CoolifyUpdateAppOptions> {
+  return {
+    pre_deployment_command: hooks.preDeploy?.command ?? "",
+    pre_deployment_command_container: hooks.preDeploy?.container ?? "",
+    post_deployment_command: hooks.postDeploy?.command ?? "",
+    post_deployment_command_container: hooks.postDeploy?.container ?? "",
+  };
+}
+
+/**
+ * Maps a manifest `basicAuth` block to the Coolify basic auth fields, reading the password from the secrets.
+ * @throws {Error} if basic auth is enabled and the password secret is not set
+ */
+function buildBasicAuthOptions(
+  basicAuth: BasicAuth,
+  secrets: Record<string, string>,
+): Partial<CoolifyUpdateAppOptions> {
+  if (!basicAuth.enabled) {
+    return { is_http_basic_auth_enabled: false };
+  }
+  const password = secrets[basicAuth.passwordSecretName];
+  if (!password) {
+    throw new Error(`Secret '${basicAuth.passwordSecretName}' for the basic auth password is not set`);
+  }
+  return {
+    is_http_basic_auth_enabled: true,
+    http_basic_auth_username: basicAuth.username,
+    http_basic_auth_password: password,
+  };
+}
+
+/**
+ * Serializes Docker labels to the format Coolify expects: base64-encoded `key=value` lines.
+ */
+export function serializeCustomLabels(labels: Record<string, string>): string {
+  const lines = Object.entries(labels).map(([key, value]) => `${key}=${value}`);
+  return Buffer.from(lines.join("\n")).toString("base64");
+}
+
+/**
+ * Serializes swarm placement constraints to the format Coolify expects: base64-encoded YAML
+ * that is merged into the `deploy` section of the swarm service.
+ */
+export function serializePlacementConstraints(constraints: string[]): string {
+  const lines = ["placement:", "  constraints:", ...constraints.map((c) => `    - ${JSON.stringify(c)}`)];
+  return Buffer.from(`${lines.join("\n")}\n`).toString("base64");
+}
+
+/**
+ * Maps the repository and build settings of a git resource. Credentials are only set on creation.
+ */
+function buildGitOptions(resource: GitResource) {
+  return {
+    git_repository: resource.repository,
+    git_branch: resource.branch,
+    build_pack: resource.buildPack,
+    base_directory: resource.baseDirectory,
+    publish_directory: resource.publishDirectory,
+    install_command: resource.installCommand,
+    build_command: resource.buildCommand,
+    start_command: resource.startCommand,
+  };
+}
+
+/**
+ * Serializes per-service domains to the JSON format Coolify stores for compose applications.
+ */
+export function serializeComposeDomains(serviceDomains: Record<string, string>): string {
+  return JSON.stringify(
+    Object.fromEntries(Object.entries(serviceDomains).map(([service, domain]) => [service, { domain }])),
+  );
+}
+
+/**
+ * Reads a database credential from the secrets.
+ * @throws {Error} if the secret is not set
+ */
+function readDatabaseSecret(database: Database, secretName: string, secrets: Record<string, string>): string {
+  const value = secrets[secretName];
+  if (!value) {
+    throw new Error(`Secret '${secretName}' for database '${database.name}' is not set`);
+  }
+  return value;
+}
+
+/**
+ * Maps the credentials of a database to the fields of its engine.
+ */
+function buildDatabaseCredentials(
+  database: Database,
+  secrets: Record<string, string>,
+): Partial<CoolifyCreateDatabaseOptions> {
+  const password = readDatabaseSecret(database, database.passwordSecretName, secrets);
+  switch (database.type) {
+    case "postgresql":
+      return { postgres_user: database.username, postgres_password: password, postgres_db: database.databaseName };
+    case "mysql":
+      return {
+        mysql_user: database.username,
+        mysql_password: password,
+        mysql_database: database.databaseName,
+        mysql_root_password: database.rootPasswordSecretName
+          ? readDatabaseSecret(database, database.rootPasswordSecretName, secrets)
+          : undefined,
+      };
+    case "redis":
+      return { redis_password: password };
+  }
+}
+
+/**
+ * Builds the internal connection string of a database. Coolify uses the database UUID as its hostname.
+ * @throws {Error} if the password secret is not set
+ */
+export function buildDatabaseUrl(database: Database, uuid: string, secrets: Record<string, string>): string {
+  const password = encodeURIComponent(readDatabaseSecret(database, database.passwordSecretName, secrets));
+  switch (database.type) {
+    case "postgresql":
+      return `postgres://${encodeURIComponent(database.username)}:${password}@${uuid}:5432/${database.databaseName}`;
+    case "mysql":
+      return `mysql://${encodeURIComponent(database.username)}:${password}@${uuid}:3306/${database.databaseName}`;
+    case "redis":
+      return `redis://default:${password}@${uuid}:6379/0`;
+  }
+}
+
+/**
+ * Maps container networking and runtime options. Unset fields are left unmanaged.
+ */
+function buildContainerOptions(resource: Resource): Partial<CoolifyUpdateAppOptions> {
+  return {
+    ports_mappings: resource.portsMappings,
+    custom_labels: resource.customLabels ? serializeCustomLabels(resource.customLabels) : undefined,
+    custom_docker_run_options: resource.customDockerRunOptions,
+    custom_network_aliases: resource.networkAliases?.join(","),
+    connect_to_docker_network: resource.connectToDockerNetwork,
+    swarm_replicas: resource.replicas,
+    swarm_placement_constraints: resource.placementConstraints
+      ? serializePlacementConstraints(resource.placementConstraints)
+      : undefined,
+  };
+}
+
 /**
  * Coolify API client for managing Docker image-based applications.
  */
@@ -171,6 +367,45 @@ export class CoolifyClient {
     return this.requestRequired<CoolifyCreateUpdateAppResponse>("POST", "/api/v1/applications/dockerimage", options);
   }
 
+  /**
+   * Creates a new application built from a git repository.
+   * The endpoint depends on whether the repository is public or accessed with a GitHub App or deploy key.
+   */
+  async createGitApplication(options: CoolifyCreateGitAppOptions): Promise<CoolifyCreateUpdateAppResponse> {
+    if (this.dryRun) {
+      this.logger.info({ options }, "[DRY RUN] Would create git application");
+      return {
+        uuid: "dry-run-uuid",
+      };
+    }
+
+    const endpoint = options.github_app_uuid
+      ? "private-github-app"
+      : options.private_key_uuid
+        ? "private-deploy-key"
+        : "public";
+
+    this.logger.info({ name: options.name, endpoint }, "Creating git application");
+    this.logger.debug({ options }, "Create application payload");
+    return this.requestRequired<CoolifyCreateUpdateAppResponse>("POST", `/api/v1/applications/${endpoint}`, options);
+  }
+
+  /**
+   * Creates a new Docker Compose application from a base64-encoded compose file.
+   */
+  async createComposeApplication(options: CoolifyCreateComposeAppOptions): Promise<CoolifyCreateUpdateAppResponse> {
+    if (this.dryRun) {
+      this.logger.info({ name: options.name }, "[DRY RUN] Would create Docker Compose application");
+      return {
+        uuid: "dry-run-uuid",
+      };
+    }
+
+    this.logger.info({ name: options.name }, "Creating Docker Compose application");
+    this.logger.debug({ options }, "Create application payload");
+    return this.requestRequired<CoolifyCreateUpdateAppResponse>("POST", "/api/v1/applications/dockercompose", options);
+  }
+
   /**
    * Updates an existing application.
    */
@@ -219,6 +454,100 @@ export class CoolifyClient {
     await this.request("DELETE", `/api/v1/applications/${appUuid}/envs/${envUuid}`);
   }
 
+  /**
+   * Lists the persistent storages of an application. File mounts are not included.
+   */
+  async listStorages(uuid: string): Promise<CoolifyStorage[]> {
+    const result = await this.request<CoolifyStorageListResponse>("GET", `/api/v1/applications/${uuid}/storages`);
+    return result?.persistent_storages ?? [];
+  }
+
+  /**
+   * Creates a persistent storage on an application.
+   */
+  async createStorage(uuid: string, options: CoolifyCreateStorageOptions): Promise<void> {
+    if (this.dryRun) {
+      this.logger.info({ uuid, mountPath: options.mount_path }, "[DRY RUN] Would create storage");
+      return;
+    }
+
+    this.logger.info({ uuid, name: options.name, mountPath: options.mount_path }, "Creating storage");
+    await this.request("POST", `/api/v1/applications/${uuid}/storages`, options);
+  }
+
+  /**
+   * Updates a persistent storage of an application.
+   */
+  async updateStorage(uuid: string, options: CoolifyUpdateStorageOptions): Promise<void> {
+    if (this.dryRun) {
+      this.logger.info({ uuid, storageUuid: options.uuid }, "[DRY RUN] Would update storage");
+      return;
+    }
+
+    this.logger.info({ uuid, storageUuid: options.uuid }, "Updating storage");
+    await this.request("PATCH", `/api/v1/applications/${uuid}/storages`, options);
+  }
+
+  /**
+   * Deletes a persistent storage from an application. For named volumes this deletes the data.
+   */
+  async deleteStorage(appUuid: string, storageUuid: string): Promise<void> {
+    if (this.dryRun) {
+      this.logger.info({ appUuid, storageUuid }, "[DRY RUN] Would delete storage");
+      return;
+    }
+
+    this.logger.info({ appUuid, storageUuid }, "Deleting storage");
+    await this.request("DELETE", `/api/v1/applications/${appUuid}/storages/${storageUuid}`);
+  }
+
+  /**
+   * Lists the scheduled tasks of an application.
+   */
+  async listScheduledTasks(uuid: string): Promise<CoolifyScheduledTask[]> {
+    const result = await this.request<CoolifyScheduledTask[]>("GET", `/api/v1/applications/${uuid}/scheduled-tasks`);
+    return result ?? [];
+  }
+
+  /**
+   * Creates a scheduled task on an application.
+   */
+  async createScheduledTask(uuid: string, options: CoolifyScheduledTaskOptions): Promise<void> {
+    if (this.dryRun) {
+      this.logger.info({ uuid, task: options.name }, "[DRY RUN] Would create scheduled task");
+      return;
+    }
+
+    this.logger.info({ uuid, task: options.name }, "Creating scheduled task");
+    await this.request("POST", `/api/v1/applications/${uuid}/scheduled-tasks`, options);
+  }
+
+  /**
+   * Updates a scheduled task of an application.
+   */
+  async updateScheduledTask(appUuid: string, taskUuid: string, options: CoolifyScheduledTaskOptions): Promise<void> {
+    if (this.dryRun) {
+      this.logger.info({ appUuid, taskUuid, task: options.name }, "[DRY RUN] Would update scheduled task");
+      return;
+    }
+
+    this.logger.info({ appUuid, taskUuid, task: options.name }, "Updating scheduled task");
+    await this.request("PATCH", `/api/v1/applications/${appUuid}/scheduled-tasks/${taskUuid}`, options);
+  }
+
+  /**
+   * Deletes a scheduled task from an application.
+   */
+  async deleteScheduledTask(appUuid: string, taskUuid: string): Promise<void> {
+    if (this.dryRun) {
+      this.logger.info({ appUuid, taskUuid }, "[DRY RUN] Would delete scheduled task");
+      return;
+    }
+
+    this.logger.info({ appUuid, taskUuid }, "Deleting scheduled task");
+    await this.request("DELETE", `/api/v1/applications/${appUuid}/scheduled-tasks/${taskUuid}`);
+  }
+
   /**
    * Deletes an application.
    */
@@ -232,6 +561,72 @@ export class CoolifyClient {
     await this.request("DELETE", `/api/v1/applications/${uuid}`);
   }
 
+  /**
+   * Lists all databases in Coolify.
+   */
+  async listDatabases(): Promise<CoolifyDatabase[]> {
+    const result = await this.request<CoolifyDatabase[]>("GET", "/api/v1/databases");
+    return result ?? [];
+  }
+
+  /**
+   * Creates a new database of the given type.
+   */
+  async createDatabase(
+    type: CoolifyDatabaseType,
+    options: CoolifyCreateDatabaseOptions,
+  ): Promise<CoolifyCreateUpdateAppResponse> {
+    if (this.dryRun) {
+      this.logger.info({ type, name: options.name }, "[DRY RUN] Would create database");
+      return {
+        uuid: "dry-run-uuid",
+      };
+    }
+
+    this.logger.info({ type, name: options.name }, "Creating database");
+    this.logger.debug({ options }, "Create database payload");
+    return this.requestRequired<CoolifyCreateUpdateAppResponse>("POST", `/api/v1/databases/${type}`, options);
+  }
+
+  /**
+   * Updates an existing database. Changes take effect after a restart.
+   */
+  async updateDatabase(uuid: string, options: CoolifyUpdateDatabaseOptions): Promise<void> {
+    if (this.dryRun) {
+      this.logger.info({ uuid, options }, "[DRY RUN] Would update database");
+      return;
+    }
+
+    this.logger.info({ uuid, name: options.name }, "Updating database");
+    await this.request("PATCH", `/api/v1/databases/${uuid}`, options);
+  }
+
+  /**
+   * Restarts a database to apply configuration changes.
+   */
+  async restartDatabase(uuid: string): Promise<void> {
+    if (this.dryRun) {
+      this.logger.info({ uuid }, "[DRY RUN] Would restart database");
+      return;
+    }
+
+    this.logger.info({ uuid }, "Restarting database");
+    await this.request("GET", `/api/v1/databases/${uuid}/restart`);
+  }
+
+  /**
+   * Deletes a database. Its volumes are kept so the data can be recovered.
+   */
+  async deleteDatabase(uuid: string): Promise<void> {
+    if (this.dryRun) {
+      this.logger.info({ uuid }, "[DRY RUN] Would delete database");
+      return;
+    }
+
+    this.logger.info({ uuid }, "Deleting database");
+    await this.request("DELETE", `/api/v1/databases/${uuid}?delete_volumes=false`);
+  }
+
   /**
    * Triggers a deployment for an application.
    * Returns the deployment UUID.
@@ -299,7 +694,8 @@ export class CoolifyClient {
   }
 
   /**
-   * Builds CreateDockerImageAppOptions from a manifest resource.
+   * Builds CreateDockerImageAppOptions or CreateGitAppOptions from a manifest resource.
+   * Secrets referenced by the resource, such as the basic auth password, are read from `secrets`.
    */
   static buildCreateOptions(
     resource: Resource,
@@ -309,15 +705,24 @@ export class CoolifyClient {
     environmentUuid: string,
     destinationUuid: string,
     dockerTag: string,
-  ): CoolifyCreateDockerImageAppOptions {
-    const options: CoolifyCreateDockerImageAppOptions = {
+    secrets: Record<string, string> = {},
+  ): CoolifyCreateDockerImageAppOptions | CoolifyCreateGitAppOptions {
+    const source =
+      resource.type === "git"
+        ? {
+            ...buildGitOptions(resource),
+            github_app_uuid: resource.githubAppUuid,
+            private_key_uuid: resource.privateKeyUuid,
+          }
+        : { docker_registry_image_name: resource.dockerImageName, docker_registry_image_tag: dockerTag };
+
+    const options: CoolifyCreateDockerImageAppOptions | CoolifyCreateGitAppOptions = {
       project_uuid: projectId,
       server_uuid: serverId,
       environment_name: environmentName,
       environment_uuid: environmentUuid,
       destination_uuid: destinationUuid,
-      docker_registry_image_name: resource.dockerImageName,
-      docker_registry_image_tag: dockerTag,
+      ...source,
       name: resource.name,
       description: resource.description,
       domains: resource.domains || undefined,
@@ -330,6 +735,8 @@ export class CoolifyClient {
       options.ports_exposes = "8888";
     }
 
+    Object.assign(options, buildContainerOptions(resource));
+
     if (resource.healthCheck) {
       options.health_check_enabled = true;
       options.health_check_path = resource.healthCheck.path;
@@ -345,22 +752,42 @@ export class CoolifyClient {
       options.health_check_start_period = resource.healthCheck.startPeriod;
     }
 
+    if (resource.limits) {
+      Object.assign(options, buildLimitOptions(resource.limits));
+    }
+
+    if (resource.hooks) {
+      Object.assign(options, buildHookOptions(resource.hooks));
+    }
+
+    if (resource.basicAuth) {
+      Object.assign(options, buildBasicAuthOptions(resource.basicAuth, secrets));
+    }
+
     return options;
   }
 
   /**
-   * Builds UpdateAppOptions from a manifest resource.
+   * Builds UpdateAppOptions from a manifest resource. The docker tag is ignored for git resources.
+   * Secrets referenced by the resource, such as the basic auth password, are read from `secrets`.
    */
-  static buildUpdateOptions(resource: Resource, dockerTag: string): CoolifyUpdateAppOptions {
+  static buildUpdateOptions(
+    resource: Resource,
+    dockerTag: string,
+    secrets: Record<string, string> = {},
+  ): CoolifyUpdateAppOptions {
     const options: CoolifyUpdateAppOptions = {
-      docker_registry_image_name: resource.dockerImageName,
-      docker_registry_image_tag: dockerTag,
+      ...(resource.type === "git"
+        ? buildGitOptions(resource)
+        : { docker_registry_image_name: resource.dockerImageName, docker_registry_image_tag: dockerTag }),
       name: resource.name,
       description: resource.description,
       domains: resource.domains || undefined,
       ports_exposes: resource.portsExposes || undefined,
     };
 
+    Object.assign(options, buildContainerOptions(resource));
+
     if (resource.healthCheck) {
       options.health_check_enabled = true;
       options.health_check_path = resource.healthCheck.path;
@@ -376,6 +803,121 @@ export class CoolifyClient {
       options.health_check_start_period = resource.healthCheck.startPeriod;
     }
 
+    if (resource.limits) {
+      Object.assign(options, buildLimitOptions(resource.limits));
+    }
+
+    if (resource.hooks) {
+      Object.assign(options, buildHookOptions(resource.hooks));
+    }
+
+    if (resource.basicAuth) {
+      Object.assign(options, buildBasicAuthOptions(resource.basicAuth, secrets));
+    }
+
     return options;
   }
+
+  /**
+   * Builds CreateStorageOptions from the storages of a manifest resource.
+   */
+  static buildStorageOptions(storages: Storage[]): CoolifyCreateStorageOptions[] {
+    return storages.map((storage) => ({
+      type: "persistent",
+      name: storage.name,
+      mount_path: storage.mountPath,
+      host_path: storage.hostPath,
+    }));
+  }
+
+  /**
+   * Builds ScheduledTaskOptions from the scheduled tasks of a manifest resource.
+   */
+  static buildScheduledTaskOptions(tasks: ScheduledTask[]): CoolifyScheduledTaskOptions[] {
+    return tasks.map((task) => ({
+      name: task.name,
+      command: task.command,
+      frequency: task.frequency,
+      container: task.container,
+    }));
+  }
+
+  /**
+   * Builds CreateComposeAppOptions from a compose resource and the contents of its compose file.
+   * Service domains are not part of the create call; apply them with the update options afterwards.
+   */
+  static buildComposeCreateOptions(
+    resource: ComposeResource,
+    composeRaw: string,
+    projectId: string,
+    serverId: string,
+    environmentName: string,
+    environmentUuid: string,
+    destinationUuid: string,
+  ): CoolifyCreateComposeAppOptions {
+    return {
+      project_uuid: projectId,
+      server_uuid: serverId,
+      environment_name: environmentName,
+      environment_uuid: environmentUuid,
+      destination_uuid: destinationUuid,
+      docker_compose_raw: Buffer.from(composeRaw).toString("base64"),
+      name: resource.name,
+      description: resource.description,
+      instant_deploy: false, // We'll deploy after setting env vars
+    };
+  }
+
+  /**
+   * Builds UpdateAppOptions from a compose resource and the contents of its compose file.
+   */
+  static buildComposeUpdateOptions(resource: ComposeResource, composeRaw: string): CoolifyUpdateAppOptions {
+    return {
+      name: resource.name,
+      description: resource.description,
+      docker_compose_raw: Buffer.from(composeRaw).toString("base64"),
+      docker_compose_domains: resource.serviceDomains ? serializeComposeDomains(resource.serviceDomains) : undefined,
+      docker_compose_custom_start_command: resource.startCommand,
+      docker_compose_custom_build_command: resource.buildCommand,
+    };
+  }
+
+  /**
+   * Builds CreateDatabaseOptions from a manifest database, reading its credentials from `secrets`.
+   * @throws {Error} if a credential secret is not set
+   */
+  static buildDatabaseCreateOptions(
+    database: Database,
+    projectId: string,
+    serverId: string,
+    environmentName: string,
+    environmentUuid: string,
+    destinationUuid: string,
+    secrets: Record<string, string> = {},
+  ): CoolifyCreateDatabaseOptions {
+    return {
+      project_uuid: projectId,
+      server_uuid: serverId,
+      environment_name: environmentName,
+      environment_uuid: environmentUuid,
+      destination_uuid: destinationUuid,
+      ...CoolifyClient.buildDatabaseUpdateOptions(database),
+      ...buildDatabaseCredentials(database, secrets),
+      instant_deploy: true,
+    };
+  }
+
+  /**
+   * Builds UpdateDatabaseOptions from a manifest database. Credentials are never updated.
+   */
+  static buildDatabaseUpdateOptions(database: Database): CoolifyUpdateDatabaseOptions {
+    return {
+      name: database.name,
+      description: database.description,
+      image: database.image,
+      is_public: database.publicPort !== undefined,
+      public_port: database.publicPort,
+      ...(database.limits ? buildLimitOptions(database.limits) : {}),
+    };
+  }
 }
@@ -0,0 +1,282 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildPatchOptions,
+  diffApplication,
+  diffDatabase,
+  diffEnvironmentVariables,
+  diffScheduledTasks,
+  diffStorages,
+  hasEnvVarChanges,
+  hasScheduledTaskChanges,
+  hasStorageChanges,
+} from "./diff";
+import type { CoolifyApplication, CoolifyDatabase, CoolifyScheduledTask, CoolifyStorage } from "./types";
+
+const createLiveApp = (overrides: Partial<CoolifyApplication> = {}): CoolifyApplication =>
+  ({
+    uuid: "app-uuid",
+    name: "my-app",
+    description: "My app",
+    fqdn: "https://app.example.com",
+    docker_registry_image_name: "ghcr.io/owner/app",
+    docker_registry_image_tag: "v1.0.0",
+    ports_exposes: "3000,8080",
+    health_check_enabled: true,
+    health_check_path: "/health",
+    health_check_port: "3000",
+    ...overrides,
+  }) as CoolifyApplication;
+
+describe("diffApplication", () => {
+  it("should report no changes when the live app matches", () => {
+    const changes = diffApplication(createLiveApp(), {
+      name: "my-app",
+      description: "My app",
+      domains: "app.example.com",
+      docker_registry_image_name: "ghcr.io/owner/app",
+      docker_registry_image_tag: "v1.0.0",
+      ports_exposes: "3000, 8080",
+      health_check_enabled: true,
+      health_check_path: "/health",
+      health_check_port: "3000",
+    });
+
+    expect(changes).toEqual([]);
+  });
+
+  it("should report changed fields with current and desired values", () => {
+    const changes = diffApplication(createLiveApp(), {
+      docker_registry_image_tag: "v2.0.0",
+      health_check_path: "/status",
+    });
+
+    expect(changes).toEqual([
+      { field: "docker_registry_image_tag", current: "v1.0.0", desired: "v2.0.0" },
+      { field: "health_check_path", current: "/health", desired: "/status" },
+    ]);
+  });
+
+  it("should ignore options that are not set", () => {
+    const changes = diffApplication(createLiveApp(), { domains: undefined, ports_exposes: undefined });
+    expect(changes).toEqual([]);
+  });
+
+  it("should treat null and empty strings as equal", () => {
+    const changes = diffApplication(createLiveApp({ description: null }), { description: "" });
+    expect(changes).toEqual([]);
+  });
+
+  it("should detect a different domain scheme when one is specified", () => {
+    const changes = diffApplication(createLiveApp(), { domains: "http://app.example.com" });
+    expect(changes).toEqual([
+      { field: "domains", current: "https://app.example.com", desired: "http://app.example.com" },
+    ]);
+  });
+
+  it("should detect added domains", () => {
+    const changes = diffApplication(createLiveApp(), { domains: "app.example.com,www.example.com" });
+    expect(changes).toHaveLength(1);
+    expect(changes[0].field).toBe("domains");
+  });
+
+  it("should compare custom labels regardless of encoding and order", () => {
+    const live = createLiveApp({ custom_labels: "traefik.enable=true\nteam=platform" });
+    const desired = Buffer.from("team=platform\ntraefik.enable=true").toString("base64");
+
+    expect(diffApplication(live, { custom_labels: desired })).toEqual([]);
+    expect(diffApplication(live, { custom_labels: Buffer.from("team=web").toString("base64") })).toHaveLength(1);
+  });
+
+  it("should compare swarm placement constraints by content", () => {
+    const yaml = 'placement:\n  constraints:\n    - "node.role == worker"\n';
+    const live = createLiveApp({ swarm_placement_constraints: Buffer.from(yaml).toString("base64") });
+
+    expect(diffApplication(live, { swarm_placement_constraints: Buffer.from(yaml).toString("base64") })).toEqual([]);
+    expect(
+      diffApplication(live, { swarm_placement_constraints: Buffer.from("placement: {}").toString("base64") }),
+    ).toHaveLength(1);
+  });
+
+  it("should match repository URLs against the stored repository path", () => {
+    const live = createLiveApp({ git_repository: "owner/repo" });
+
+    expect(diffApplication(live, { git_repository: "https://github.com/owner/repo.git" })).toEqual([]);
+    expect(diffApplication(live, { git_repository: "git@github.com:owner/other.git" })).toHaveLength(1);
+  });
+
+  it("should compare compose files and service domains by content", () => {
+    const live = createLiveApp({
+      docker_compose_raw: "services:\n  web:\n    image: nginx\n",
+      docker_compose_domains: '{"worker":{"domain":null},"web":{"domain":"https://stack.example.com"}}',
+    });
+    const desired = {
+      docker_compose_raw: Buffer.from("services:\n  web:\n    image: nginx").toString("base64"),
+      docker_compose_domains: '{"web":{"domain":"https://stack.example.com"}}',
+    };
+
+    expect(diffApplication(live, desired)).toEqual([]);
+    expect(diffApplication(live, { docker_compose_raw: Buffer.from("services: {}").toString("base64") })).toHaveLength(
+      1,
+    );
+  });
+
+  it("should skip settings fields the API does not report", () => {
+    expect(diffApplication(createLiveApp(), { connect_to_docker_network: true })).toEqual([]);
+  });
+});
+
+describe("diffDatabase", () => {
+  const database = {
+    uuid: "db-uuid",
+    name: "main-db",
+    description: null,
+    image: "postgres:16-alpine",
+    is_public: false,
+    public_port: null,
+    limits_memory: "0",
+  } as CoolifyDatabase;
+
+  it("should report changed database fields", () => {
+    expect(
+      diffDatabase(database, { name: "main-db", description: "", image: "postgres:17-alpine", is_public: false }),
+    ).toEqual([{ field: "image", current: "postgres:16-alpine", desired: "postgres:17-alpine" }]);
+  });
+
+  it("should ignore options that are not set", () => {
+    expect(diffDatabase(database, { public_port: undefined })).toEqual([]);
+  });
+});
+
+describe("buildPatchOptions", () => {
+  it("should only include changed fields", () => {
+    const options = buildPatchOptions([
+      { field: "docker_registry_image_tag", current: "v1.0.0", desired: "v2.0.0" },
+      { field: "health_check_retries", current: 3, desired: 5 },
+    ]);
+
+    expect(options).toEqual({ docker_registry_image_tag: "v2.0.0", health_check_retries: 5 });
+  });
+});
+
+describe("diffEnvironmentVariables", () => {
+  it("should classify added, changed and removed variables", () => {
+    const diff = diffEnvironmentVariables(
+      [
+        { uuid: "uuid-1", key: "KEEP", value: "same" },
+        { uuid: "uuid-2", key: "CHANGE", value: "old" },
+        { uuid: "uuid-3", key: "REMOVE", value: "gone" },
+      ],
+      [
+        { key: "KEEP", value: "same" },
+        { key: "CHANGE", value: "new" },
+        { key: "ADD", value: "added" },
+      ],
+    );
+
+    expect(diff.added).toEqual([{ key: "ADD", value: "added" }]);
+    expect(diff.changed).toEqual([{ key: "CHANGE", value: "new" }]);
+    expect(diff.removed).toEqual([{ uuid: "uuid-3", key: "REMOVE", value: "gone" }]);
+    expect(hasEnvVarChanges(diff)).toBe(true);
+  });
+
+  it("should detect flag changes reported by the API", () => {
+    const diff = diffEnvironmentVariables(
+      [{ uuid: "uuid-1", key: "TOKEN", value: "secret", is_literal: false }],
+      [{ key: "TOKEN", value: "secret", is_literal: true }],
+    );
+
+    expect(diff.changed).toHaveLength(1);
+  });
+
+  it("should compare preview variables against live preview variables", () => {
+    const diff = diffEnvironmentVariables(
+      [
+        { uuid: "uuid-1", key: "KEY", value: "value", is_preview: false },
+        { uuid: "uuid-2", key: "KEY", value: "preview-value", is_preview: true },
+      ],
+      [{ key: "KEY", value: "preview-value", is_preview: true }],
+    );
+
+    expect(diff.added).toEqual([]);
+    expect(diff.changed).toEqual([]);
+  });
+
+  it("should not compare values against preview copies", () => {
+    const diff = diffEnvironmentVariables(
+      [
+        { uuid: "uuid-1", key: "KEY", value: "value", is_preview: false },
+        { uuid: "uuid-2", key: "KEY", value: "preview-value", is_preview: true },
+      ],
+      [{ key: "KEY", value: "value", is_preview: false }],
+    );
+
+    expect(hasEnvVarChanges(diff)).toBe(false);
+  });
+});
+
+describe("diffStorages", () => {
+  const createLiveStorage = (overrides: Partial<CoolifyStorage> = {}): CoolifyStorage =>
+    ({ uuid: "storage-uuid", name: "data", mount_path: "/data", host_path: null, ...overrides }) as CoolifyStorage;
+
+  it("should match storages by mount path", () => {
+    const diff = diffStorages(
+      [
+        createLiveStorage(),
+        createLiveStorage({ uuid: "uploads-uuid", name: "uploads", mount_path: "/uploads", host_path: "/srv/old" }),
+        createLiveStorage({ uuid: "cache-uuid", name: "cache", mount_path: "/cache" }),
+      ],
+      [
+        { type: "persistent", name: "data", mount_path: "/data" },
+        { type: "persistent", name: "uploads", mount_path: "/uploads", host_path: "/srv/uploads" },
+        { type: "persistent", name: "logs", mount_path: "/logs" },
+      ],
+    );
+
+    expect(diff.added).toEqual([{ type: "persistent", name: "logs", mount_path: "/logs" }]);
+    expect(diff.changed).toEqual([
+      { uuid: "uploads-uuid", type: "persistent", name: "uploads", mount_path: "/uploads", host_path: "/srv/uploads" },
+    ]);
+    expect(diff.removed.map((s) => s.uuid)).toEqual(["cache-uuid"]);
+  });
+
+  it("should treat an empty host path as a named volume", () => {
+    const diff = diffStorages(
+      [createLiveStorage({ host_path: "" })],
+      [{ type: "persistent", name: "data", mount_path: "/data" }],
+    );
+
+    expect(hasStorageChanges(diff)).toBe(false);
+  });
+});
+
+describe("diffScheduledTasks", () => {
+  const createLiveTask = (overrides: Partial<CoolifyScheduledTask> = {}): CoolifyScheduledTask =>
+    ({
+      uuid: "task-uuid",
+      name: "cleanup",
+      command: "cleanup.sh",
+      frequency: "0 3 * * *",
+      container: null,
+      ...overrides,
+    }) as CoolifyScheduledTask;
+
+  it("should classify added, changed and removed tasks by name", () => {
+    const diff = diffScheduledTasks(
+      [
+        createLiveTask(),
+        createLiveTask({ uuid: "report-uuid", name: "report", frequency: "daily" }),
+        createLiveTask({ uuid: "old-uuid", name: "old" }),
+      ],
+      [
+        { name: "cleanup", command: "cleanup.sh", frequency: "0 3 * * *" },
+        { name: "report", command: "cleanup.sh", frequency: "weekly" },
+        { name: "backup", command: "backup.sh", frequency: "hourly", container: "db" },
+      ],
+    );
+
+    expect(diff.added).toEqual([{ name: "backup", command: "backup.sh", frequency: "hourly", container: "db" }]);
+    expect(diff.changed).toEqual([{ uuid: "report-uuid", name: "report", command: "cleanup.sh", frequency: "weekly" }]);
+    expect(diff.removed.map((t) => t.uuid)).toEqual(["old-uuid"]);
+    expect(hasScheduledTaskChanges(diff)).toBe(true);
+  });
+});
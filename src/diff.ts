@@ -0,0 +1,358 @@
+import type {
+  CoolifyApplication,
+  CoolifyDatabase,
+  CoolifyEnvVar,
+  CoolifyEnvVarResponse,
+  CoolifyCreateStorageOptions,
+  CoolifyScheduledTask,
+  CoolifyScheduledTaskOptions,
+  CoolifyStorage,
+  CoolifyUpdateAppOptions,
+  CoolifyUpdateDatabaseOptions,
+  CoolifyUpdateStorageOptions,
+} from "./types";
+
+/**
+ * An update option of an application or a database.
+ */
+export type DiffField = keyof CoolifyUpdateAppOptions | keyof CoolifyUpdateDatabaseOptions;
+
+/**
+ * A single field that differs between the live application or database and the desired options.
+ */
+export interface FieldChange {
+  field: DiffField;
+  current: unknown;
+  desired: unknown;
+}
+
+/**
+ * Differences between the live environment variables of an application and the desired ones.
+ */
+export interface EnvVarDiff {
+  added: CoolifyEnvVar[];
+  changed: CoolifyEnvVar[];
+  removed: CoolifyEnvVarResponse[];
+}
+
+/**
+ * Differences between the live persistent storages of an application and the desired ones, matched by mount path.
+ */
+export interface StorageDiff {
+  added: CoolifyCreateStorageOptions[];
+  changed: CoolifyUpdateStorageOptions[];
+  /** Live storages whose mount path is not in the desired list */
+  removed: CoolifyStorage[];
+}
+
+/**
+ * Differences between the live scheduled tasks of an application and the desired ones, matched by name.
+ */
+export interface ScheduledTaskDiff {
+  added: CoolifyScheduledTaskOptions[];
+  changed: (CoolifyScheduledTaskOptions & { uuid: string })[];
+  removed: CoolifyScheduledTask[];
+}
+
+/**
+ * Update option keys whose value lives under a different name on the application response.
+ */
+const APPLICATION_FIELD_ALIASES: Partial<Record<keyof CoolifyUpdateAppOptions, keyof CoolifyApplication>> = {
+  domains: "fqdn",
+};
+
+/**
+ * Update option keys that hold comma-separated lists where whitespace is insignificant.
+ */
+const LIST_FIELDS = new Set<DiffField>(["ports_exposes", "ports_mappings", "custom_network_aliases"]);
+
+/**
+ * Update option keys stored in application settings, which not every API version includes
+ * in the application response. They are only compared when the response reports them.
+ */
+const SETTINGS_FIELDS = new Set<keyof CoolifyUpdateAppOptions>(["connect_to_docker_network"]);
+
+/**
+ * Env var flags compared when both sides report them.
+ */
+const ENV_VAR_FLAGS = ["is_preview", "is_literal", "is_shown_once", "is_buildtime", "is_runtime"] as const;
+
+const SCHEME_PATTERN = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part !== "");
+}
+
+/**
+ * Compares domain lists. Coolify stores domains as full URLs, so a desired domain
+ * without a scheme matches a live domain with any scheme.
+ */
+function domainsEqual(current: string, desired: string): boolean {
+  const currentDomains = splitList(current).map((d) => d.replace(/\/+$/, ""));
+  const desiredDomains = splitList(desired).map((d) => d.replace(/\/+$/, ""));
+  if (currentDomains.length !== desiredDomains.length) {
+    return false;
+  }
+  return desiredDomains.every((domain, index) => {
+    const live = currentDomains[index];
+    return domain === live || (!SCHEME_PATTERN.test(domain) && live.replace(SCHEME_PATTERN, "") === domain);
+  });
+}
+
+/**
+ * Decodes a value Coolify accepts base64-encoded. Plain text values are returned as is.
+ */
+function decodeBase64(value: string): string {
+  return /^[A-Za-z0-9+/]*={0,2}$/.test(value) ? Buffer.from(value, "base64").toString("utf-8") : value;
+}
+
+/**
+ * Decodes custom labels into sorted lines.
+ */
+function decodeLabels(value: string): string {
+  return decodeBase64(value)
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line !== "")
+    .sort()
+    .join("\n");
+}
+
+/**
+ * Reduces a repository reference to its path. Coolify may store GitHub repositories as `owner/repo`
+ * where the manifest uses a full URL.
+ */
+function normalizeRepository(value: string): string {
+  return value
+    .trim()
+    .replace(SCHEME_PATTERN, "")
+    .replace(/^[^/@]+@/, "")
+    .replace(/^[^/:]+\.[^/:]+[/:]/, "")
+    .replace(/\.git$/, "")
+    .replace(/\/+$/, "");
+}
+
+/**
+ * Normalizes compose domains so key order and empty values do not matter.
+ */
+function normalizeComposeDomains(value: string): string {
+  if (value === "") {
+    return "{}";
+  }
+  try {
+    const parsed = JSON.parse(value) as Record<string, { domain?: string | null }>;
+    const entries = Object.entries(parsed)
+      .map(([service, { domain }]): [string, string] => [service, splitList(domain ?? "").join(",")])
+      .filter(([, domain]) => domain !== "")
+      .sort(([a], [b]) => a.localeCompare(b));
+    return JSON.stringify(entries);
+  } catch {
+    return value;
+  }
+}
+
+function valuesEqual(field: DiffField, current: unknown, desired: unknown): boolean {
+  // The API returns null for unset values where the manifest uses empty strings
+  const currentValue = current === null || current === undefined ? "" : String(current);
+  const desiredValue = String(desired);
+
+  if (field === "domains") {
+    return domainsEqual(currentValue, desiredValue);
+  }
+  if (field === "git_repository") {
+    return normalizeRepository(currentValue) === normalizeRepository(desiredValue);
+  }
+  if (field === "docker_compose_raw" || field === "swarm_placement_constraints") {
+    return decodeBase64(currentValue).trimEnd() === decodeBase64(desiredValue).trimEnd();
+  }
+  if (field === "docker_compose_domains") {
+    return normalizeComposeDomains(currentValue) === normalizeComposeDomains(desiredValue);
+  }
+  if (field === "custom_labels") {
+    return decodeLabels(currentValue) === decodeLabels(desiredValue);
+  }
+  if (LIST_FIELDS.has(field)) {
+    return splitList(currentValue).join(",") === splitList(desiredValue).join(",");
+  }
+  return currentValue === desiredValue;
+}
+
+/**
+ * Picks the live values of every field managed by the desired update options.
+ */
+export function pickLiveFields(
+  app: CoolifyApplication,
+  desired: CoolifyUpdateAppOptions,
+): Partial<Record<keyof CoolifyUpdateAppOptions, unknown>> {
+  const live = app as unknown as Record<string, unknown>;
+  const fields: Partial<Record<keyof CoolifyUpdateAppOptions, unknown>> = {};
+
+  for (const [key, desiredValue] of Object.entries(desired)) {
+    const field = key as keyof CoolifyUpdateAppOptions;
+    if (desiredValue === undefined || (SETTINGS_FIELDS.has(field) && live[field] === undefined)) {
+      continue;
+    }
+    fields[field] = live[APPLICATION_FIELD_ALIASES[field] ?? field] ?? null;
+  }
+
+  return fields;
+}
+
+/**
+ * Compares the desired update options against a live application.
+ * Options left undefined are not managed by the manifest and never produce a change.
+ */
+export function diffApplication(app: CoolifyApplication, desired: CoolifyUpdateAppOptions): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const [key, current] of Object.entries(pickLiveFields(app, desired))) {
+    const field = key as keyof CoolifyUpdateAppOptions;
+    const desiredValue = desired[field];
+    if (!valuesEqual(field, current, desiredValue)) {
+      changes.push({ field, current, desired: desiredValue });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compares the desired update options against a live database.
+ * Options left undefined are not managed by the manifest and never produce a change.
+ */
+export function diffDatabase(database: CoolifyDatabase, desired: CoolifyUpdateDatabaseOptions): FieldChange[] {
+  const live = database as unknown as Record<string, unknown>;
+  const changes: FieldChange[] = [];
+
+  for (const [key, desiredValue] of Object.entries(desired)) {
+    const field = key as keyof CoolifyUpdateDatabaseOptions;
+    const current = live[field] ?? null;
+    if (desiredValue !== undefined && !valuesEqual(field, current, desiredValue)) {
+      changes.push({ field, current, desired: desiredValue });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Builds a minimal update payload containing only the changed fields.
+ */
+export function buildPatchOptions<T extends object = CoolifyUpdateAppOptions>(changes: FieldChange[]): T {
+  return Object.fromEntries(changes.map((change) => [change.field, change.desired])) as T;
+}
+
+/**
+ * Compares desired environment variables against the variables currently set on an application.
+ * Preview variables are only compared with live preview variables, and preview copies of other
+ * variables are only considered for removal.
+ */
+export function diffEnvironmentVariables(current: CoolifyEnvVarResponse[], desired: CoolifyEnvVar[]): EnvVarDiff {
+  const desiredKeys = new Set(desired.map((e) => e.key));
+  const liveByKey = new Map(current.filter((e) => !e.is_preview).map((e) => [e.key, e]));
+  const livePreviewByKey = new Map(current.filter((e) => e.is_preview).map((e) => [e.key, e]));
+
+  const added: CoolifyEnvVar[] = [];
+  const changed: CoolifyEnvVar[] = [];
+  for (const envVar of desired) {
+    const live = (envVar.is_preview ? livePreviewByKey : liveByKey).get(envVar.key);
+    if (!live) {
+      added.push(envVar);
+      continue;
+    }
+    const flagChanged = ENV_VAR_FLAGS.some(
+      (flag) => live[flag] !== undefined && envVar[flag] !== undefined && live[flag] !== envVar[flag],
+    );
+    if (live.value !== envVar.value || flagChanged) {
+      changed.push(envVar);
+    }
+  }
+
+  const removed = current.filter((e) => !desiredKeys.has(e.key));
+
+  return { added, changed, removed };
+}
+
+/**
+ * Returns true if applying the env var diff would modify the application.
+ */
+export function hasEnvVarChanges(diff: EnvVarDiff): boolean {
+  return diff.added.length > 0 || diff.changed.length > 0 || diff.removed.length > 0;
+}
+
+/**
+ * Compares desired persistent storages against the storages currently mounted into an application.
+ * Storages are matched by mount path, so a changed name or host path updates the storage in place.
+ */
+export function diffStorages(current: CoolifyStorage[], desired: CoolifyCreateStorageOptions[]): StorageDiff {
+  const desiredPaths = new Set(desired.map((s) => s.mount_path));
+  const liveByPath = new Map(current.map((s) => [s.mount_path, s]));
+
+  const added: CoolifyCreateStorageOptions[] = [];
+  const changed: CoolifyUpdateStorageOptions[] = [];
+  for (const storage of desired) {
+    const live = liveByPath.get(storage.mount_path);
+    if (!live) {
+      added.push(storage);
+    } else if (live.name !== storage.name || (live.host_path || null) !== (storage.host_path ?? null)) {
+      changed.push({
+        uuid: live.uuid,
+        type: "persistent",
+        name: storage.name,
+        mount_path: storage.mount_path,
+        host_path: storage.host_path ?? null,
+      });
+    }
+  }
+
+  const removed = current.filter((s) => !desiredPaths.has(s.mount_path));
+
+  return { added, changed, removed };
+}
+
+/**
+ * Returns true if applying the storage diff would modify the application.
+ */
+export function hasStorageChanges(diff: StorageDiff): boolean {
+  return diff.added.length > 0 || diff.changed.length > 0 || diff.removed.length > 0;
+}
+
+/**
+ * Compares desired scheduled tasks against the tasks currently defined on an application.
+ */
+export function diffScheduledTasks(
+  current: CoolifyScheduledTask[],
+  desired: CoolifyScheduledTaskOptions[],
+): ScheduledTaskDiff {
+  const desiredNames = new Set(desired.map((t) => t.name));
+  const liveByName = new Map(current.map((t) => [t.name, t]));
+
+  const added: CoolifyScheduledTaskOptions[] = [];
+  const changed: ScheduledTaskDiff["changed"] = [];
+  for (const task of desired) {
+    const live = liveByName.get(task.name);
+    if (!live) {
+      added.push(task);
+    } else if (
+      live.command !== task.command ||
+      live.frequency !== task.frequency ||
+      (live.container || "") !== (task.container ?? "")
+    ) {
+      changed.push({ ...task, uuid: live.uuid });
+    }
+  }
+
+  const removed = current.filter((t) => !desiredNames.has(t.name));
+
+  return { added, changed, removed };
+}
+
+/**
+ * Returns true if applying the scheduled task diff would modify the application.
+ */
+export function hasScheduledTaskChanges(diff: ScheduledTaskDiff): boolean {
+  return diff.added.length > 0 || diff.changed.length > 0 || diff.removed.length > 0;
+}
@@ -0,0 +1,312 @@
+import type { EnvVarFlags } from "./manifest";
+
+/**
+ * A problem found while parsing a .env file. The affected line is skipped or parsed leniently,
+ * and the reason says which.
+ */
+export interface DotenvWarning {
+  /** 1-based line the assignment starts on */
+  line: number;
+  reason: string;
+}
+
+/**
+ * Quote a .env value was written in.
+ */
+export type DotenvQuote = '"' | "'" | "`";
+
+/**
+ * Variables parsed from a .env file together with the problems found while parsing it.
+ */
+export interface DotenvParseResult {
+  values: Record<string, string>;
+  /** Quote each quoted value was written in; unquoted values have no entry */
+  quotes: Record<string, DotenvQuote>;
+  /** Coolify flags from `# @...` annotations, for keys that have any */
+  flags: Record<string, EnvVarFlags>;
+  warnings: DotenvWarning[];
+}
+
+/**
+ * Annotations that set Coolify flags on the next variable, written as `# @shown-once` on the lines above it.
+ */
+export const ENV_ANNOTATIONS: Readonly<Record<string, EnvVarFlags>> = {
+  "shown-once": { shownOnce: true },
+  literal: { literal: true },
+  interpolate: { literal: false },
+  preview: { preview: true },
+  "build-only": { buildTime: true, runtime: false },
+  "runtime-only": { buildTime: false, runtime: true },
+};
+
+const ASSIGNMENT_PATTERN = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=[ \t]*(.*)$/;
+
+const QUOTES = new Set<string>(['"', "'", "`"]);
+
+/**
+ * Escape sequences expanded in double-quoted values. Other escapes are kept as written.
+ */
+const ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", '"': '"', "\\": "\\" };
+
+/**
+ * Finds the closing quote in `text`, skipping backslash escapes inside double quotes.
+ */
+function findClosingQuote(text: string, quote: string): number {
+  for (let index = 0; index < text.length; index++) {
+    if (quote === '"' && text[index] === "\\") {
+      index++;
+    } else if (text[index] === quote) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+function unescapeDoubleQuoted(value: string): string {
+  return value.replace(/\\(.)/gs, (escape, char: string) => ESCAPES[char] ?? escape);
+}
+
+/**
+ * Reads the annotations of a comment line such as `# @shown-once @interpolate`.
+ * Words that do not start with `@` are ignored, so annotations may be followed by a description.
+ */
+function parseAnnotations(comment: string, line: number, warnings: DotenvWarning[]): EnvVarFlags {
+  const flags: EnvVarFlags = {};
+  for (const word of comment.slice(1).trim().split(/\s+/)) {
+    if (!word.startsWith("@")) {
+      continue;
+    }
+    const annotation = ENV_ANNOTATIONS[word.slice(1)];
+    if (annotation) {
+      Object.assign(flags, annotation);
+    } else {
+      warnings.push({ line, reason: `Unknown annotation ${word}, it was ignored` });
+    }
+  }
+  return flags;
+}
+
+/**
+ * Parses a .env formatted string the way dotenv does:
+ * - `KEY=value` with an optional `export ` prefix and spaces around `=`
+ * - Values in double, single or backtick quotes, which may span several lines
+ * - `\n`, `\r`, `\t`, `\"` and `\\` escapes in double-quoted values; other quotes are literal
+ * - Comments on their own line, and after a value when preceded by whitespace
+ * - Comment lines starting with `# @` annotate the next variable (see `ENV_ANNOTATIONS`)
+ *
+ * Lines that cannot be parsed are skipped and reported in `warnings`, as are redefined keys.
+ */
+export function parseDotenv(content: string): DotenvParseResult {
+  const values: Record<string, string> = {};
+  const flags: Record<string, EnvVarFlags> = {};
+  const quotes: Record<string, DotenvQuote> = {};
+  const warnings: DotenvWarning[] = [];
+  const definedOn = new Map<string, number>();
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
+  let pending: { line: number; flags: EnvVarFlags } | undefined;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = index + 1;
+    const trimmed = lines[index].trim();
+    if (/^#\s*@/.test(trimmed)) {
+      const annotated = parseAnnotations(trimmed, line, warnings);
+      pending = { line: pending?.line ?? line, flags: { ...pending?.flags, ...annotated } };
+      continue;
+    }
+    if (trimmed === "" || trimmed.startsWith("#")) {
+      continue;
+    }
+
+    const match = ASSIGNMENT_PATTERN.exec(lines[index]);
+    if (!match) {
+      warnings.push({ line, reason: "Expected KEY=value, the line was skipped" });
+      pending = undefined;
+      continue;
+    }
+
+    const [, key, rest] = match;
+    let value: string;
+    let quote: DotenvQuote | undefined;
+
+    if (QUOTES.has(rest[0])) {
+      quote = rest[0] as DotenvQuote;
+      let text = rest.slice(1);
+      let end = index;
+      let close = findClosingQuote(text, quote);
+      while (close === -1 && end + 1 < lines.length) {
+        end++;
+        text += `\n${lines[end]}`;
+        close = findClosingQuote(text, quote);
+      }
+      if (close === -1) {
+        warnings.push({ line, reason: `${key} has an opening ${quote} quote that is never closed, it was skipped` });
+        pending = undefined;
+        continue;
+      }
+
+      const trailing = text.slice(close + 1).trim();
+      if (trailing !== "" && !trailing.startsWith("#")) {
+        warnings.push({
+          line: end + 1,
+          reason: `${key} has text after its closing ${quote} quote, the text was ignored`,
+        });
+      }
+      const raw = text.slice(0, close);
+      value = quote === '"' ? unescapeDoubleQuoted(raw) : raw;
+      index = end;
+    } else {
+      value = rest.replace(/(^|\s)#.*$/, "").trim();
+    }
+
+    const previous = definedOn.get(key);
+    if (previous !== undefined) {
+      warnings.push({ line, reason: `${key} is already defined on line ${previous}, the later value is used` });
+    }
+    definedOn.set(key, line);
+    values[key] = value;
+    if (quote) {
+      quotes[key] = quote;
+    } else {
+      delete quotes[key];
+    }
+    if (pending) {
+      flags[key] = pending.flags;
+      pending = undefined;
+    } else {
+      delete flags[key];
+    }
+  }
+
+  if (pending) {
+    warnings.push({ line: pending.line, reason: "Annotations are not followed by a variable, they were ignored" });
+  }
+
+  return { values, quotes, flags, warnings };
+}
+
+/**
+ * Parses a .env formatted string into key-value pairs, ignoring warnings.
+ * See `parseDotenv` for the supported syntax.
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+  return parseDotenv(content).values;
+}
+
+/**
+ * A reference in an env var value that could not be expanded.
+ */
+export interface EnvExpansionIssue {
+  key: string;
+  reason: string;
+}
+
+/**
+ * Env vars with their references expanded, and the keys whose references could not all be expanded.
+ */
+export interface EnvExpansionResult {
+  values: Record<string, string>;
+  issues: EnvExpansionIssue[];
+}
+
+/**
+ * Matches `$${` (an escaped reference), `${KEY}` and `${KEY:-default}`.
+ */
+const REFERENCE_PATTERN = /\$\$\{|\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * Lists the keys a value references, ignoring escaped references.
+ */
+function listReferences(value: string): string[] {
+  return [...value.matchAll(REFERENCE_PATTERN)].flatMap(([, name]) => (name === undefined ? [] : [name]));
+}
+
+/**
+ * Follows references from the last key of `path` back to its first key, returning the cycle if there is one.
+ */
+function findCycle(values: Record<string, string>, path: string[]): string[] | undefined {
+  for (const name of listReferences(values[path[path.length - 1]] ?? "")) {
+    if (name === path[0]) {
+      return [...path, name];
+    }
+    if (Object.hasOwn(values, name) && !path.includes(name)) {
+      const cycle = findCycle(values, [...path, name]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Explains why a reference from `key` to `name` could not be expanded.
+ */
+function describeUnresolved(values: Record<string, string>, key: string, name: string): string {
+  const cycle = name === key ? [key, key] : findCycle(values, [key, name]);
+  if (cycle) {
+    return `Reference cycle ${cycle.join(" -> ")}`;
+  }
+  if (Object.hasOwn(values, name)) {
+    return `References ${name} before it is defined`;
+  }
+  return `References undefined variable ${name}`;
+}
+
+/**
+ * Expands `${KEY}` and `${KEY:-default}` references in env var values, the way dotenv-expand does.
+ * A reference resolves to a key defined above it in `values`, already expanded, or else to the first of
+ * `scopes` that defines it. Defaults are used when the variable is unset or empty, and `$${` produces
+ * a literal `${`. Keys in `literalKeys`, such as single-quoted values, are kept as written.
+ *
+ * References that cannot be expanded are left as written and reported per key, as are references
+ * to keys that could not be fully expanded themselves.
+ */
+export function expandEnvVars(
+  values: Record<string, string>,
+  scopes: Record<string, string | undefined>[] = [],
+  literalKeys: ReadonlySet<string> = new Set(),
+): EnvExpansionResult {
+  const expanded: Record<string, string> = {};
+  const issues: EnvExpansionIssue[] = [];
+  const unresolved = new Set<string>();
+
+  for (const [key, value] of Object.entries(values)) {
+    if (literalKeys.has(key)) {
+      expanded[key] = value;
+      continue;
+    }
+
+    const problems = new Set<string>();
+    expanded[key] = value.replace(
+      REFERENCE_PATTERN,
+      (match, name: string | undefined, fallback: string | undefined) => {
+        if (name === undefined) {
+          return "${";
+        }
+
+        const resolved = Object.hasOwn(expanded, name)
+          ? expanded[name]
+          : scopes.map((scope) => scope[name]).find((scoped) => scoped !== undefined);
+        if (unresolved.has(name) && Object.hasOwn(expanded, name)) {
+          problems.add(`References ${name}, which could not be fully expanded`);
+        }
+
+        if (resolved !== undefined && (resolved !== "" || fallback === undefined)) {
+          return resolved;
+        }
+        if (fallback !== undefined) {
+          return fallback;
+        }
+        problems.add(describeUnresolved(values, key, name));
+        return match;
+      },
+    );
+
+    if (problems.size > 0) {
+      unresolved.add(key);
+    }
+    issues.push(...[...problems].map((reason) => ({ key, reason })));
+  }
+
+  return { values: expanded, issues };
+}
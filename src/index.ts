@@ -1,17 +1,144 @@
 // Export types and functions for use as a library
-export { healthCheckSchema, manifestSchema, parseManifest, resourceSchema, safeParseManifest } from "./manifest";
-export type { HealthCheck, Manifest, Resource } from "./manifest";
+export {
+  applyEnvironmentOverlay,
+  applyResourceDefaults,
+  basicAuthSchema,
+  composeResourceSchema,
+  createManifestJsonSchema,
+  createManifestSchema,
+  DATABASE_TYPES,
+  databaseSchema,
+  deploymentCommandSchema,
+  dockerImageResourceSchema,
+  envVarFlagsSchema,
+  GIT_BUILD_PACKS,
+  gitResourceSchema,
+  environmentOverlaySchema,
+  healthCheckSchema,
+  hooksSchema,
+  limitsSchema,
+  LINT_RULE_IDS,
+  lintConfigSchema,
+  listSecretReferences,
+  manifestResourceSchema,
+  manifestSchema,
+  orderByDependencies,
+  parseManifest,
+  resourceDefaultsSchema,
+  resourceSchema,
+  safeParseManifest,
+  scheduledTaskSchema,
+  storageSchema,
+} from "./manifest";
+export type {
+  BasicAuth,
+  ComposeResource,
+  Database,
+  DeploymentCommand,
+  DockerImageResource,
+  EnvironmentOverlay,
+  EnvVarFlags,
+  GitResource,
+  HealthCheck,
+  Hooks,
+  Limits,
+  LintConfig,
+  LintRuleId,
+  Manifest,
+  ManifestResource,
+  ParseManifestOptions,
+  Resource,
+  ResourceDefaults,
+  ScheduledTask,
+  Storage,
+} from "./manifest";
+
+export {
+  detectManifestFormat,
+  formatIssue,
+  loadManifestFile,
+  locateIssues,
+  ManifestError,
+  parseManifestContent,
+  parseManifestSource,
+} from "./loader";
+export type { LoadManifestOptions, ManifestFormat, ManifestIssue, ManifestSource, SourceLocation } from "./loader";
+
+export {
+  applyManifestEdits,
+  describeEdit,
+  MANIFEST_MIGRATIONS,
+  MANIFEST_VERSION,
+  ManifestVersionError,
+  migrateManifestData,
+  planManifestMigration,
+} from "./migrations";
+export type { ManifestEdit, ManifestMigration, ManifestMigrationPlan } from "./migrations";
+
+export { isPartialSelection, parseNameList, parseSelector, selectResources } from "./selection";
+export type { ResourceSelection } from "./selection";
+
+export { interpolateManifest, interpolateString, parseVariableAssignment } from "./variables";
+export type { InterpolationIssue, InterpolationResult, ManifestVariables } from "./variables";
 
-export { CoolifyClient } from "./coolify";
+export {
+  buildDatabaseUrl,
+  CoolifyClient,
+  serializeComposeDomains,
+  serializeCustomLabels,
+  serializePlacementConstraints,
+} from "./coolify";
 export type {
   CoolifyApiError,
   CoolifyApplication,
+  CoolifyCreateComposeAppOptions,
+  CoolifyCreateDatabaseOptions,
   CoolifyCreateDockerImageAppOptions,
+  CoolifyCreateGitAppOptions,
+  CoolifyCreateStorageOptions,
+  CoolifyDatabase,
+  CoolifyDatabaseType,
   CoolifyEnvVar,
+  CoolifyScheduledTask,
+  CoolifyScheduledTaskOptions,
+  CoolifyStorage,
   CoolifyUpdateAppOptions,
+  CoolifyUpdateDatabaseOptions,
+  CoolifyUpdateStorageOptions,
 } from "./coolify";
 
-export { envVarsToCoolifyFormat, parseEnvFile, Reconciler } from "./reconciler";
+export { formatLintFinding, LINT_RULES, lintManifest } from "./lint";
+export type { LintFinding, LintRule, LintSeverity } from "./lint";
+
+export {
+  buildPatchOptions,
+  diffApplication,
+  diffDatabase,
+  diffEnvironmentVariables,
+  diffScheduledTasks,
+  diffStorages,
+  hasEnvVarChanges,
+  hasScheduledTaskChanges,
+  hasStorageChanges,
+} from "./diff";
+export type { DiffField, EnvVarDiff, FieldChange, ScheduledTaskDiff, StorageDiff } from "./diff";
+
+export {
+  comparePlans,
+  findPlanOptionConflicts,
+  fingerprint,
+  formatPlan,
+  parsePlan,
+  planSchema,
+  REDACTED,
+  redactChanges,
+} from "./plan";
+export type { Plan, PlannedAction, PlanOptions, ResourcePlan } from "./plan";
+
+export { ENV_ANNOTATIONS, expandEnvVars, parseDotenv, parseEnvFile } from "./dotenv";
+export type { DotenvParseResult, DotenvQuote, DotenvWarning, EnvExpansionIssue, EnvExpansionResult } from "./dotenv";
+
+export { envVarsToCoolifyFormat, isMutableTag, Reconciler } from "./reconciler";
 export type { ReconcileResourceResult, ReconcileResult, ReconcilerOptions } from "./reconciler";
 
 export { createLogger } from "./logger";
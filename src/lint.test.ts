@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { formatLintFinding, lintManifest } from "./lint";
+import { parseManifest, type Manifest } from "./manifest";
+
+const createManifest = (overrides: Record<string, unknown> = {}, resources?: unknown[]): Manifest =>
+  parseManifest({
+    projectId: "project-uuid",
+    destinationId: "destination-uuid",
+    resources: resources ?? [
+      {
+        name: "api",
+        dockerImageName: "ghcr.io/owner/api",
+        envSecretName: "COOLIFY_ENV_API",
+        domains: "https://api.example.com",
+        portsExposes: "3000",
+        healthCheck: { path: "/health", port: "3000" },
+      },
+    ],
+    ...overrides,
+  });
+
+const createResource = (name: string, overrides: Record<string, unknown> = {}) => ({
+  name,
+  dockerImageName: `ghcr.io/owner/${name}`,
+  envSecretName: `COOLIFY_ENV_${name.toUpperCase()}`,
+  portsExposes: "3000",
+  ...overrides,
+});
+
+describe("lintManifest", () => {
+  it("should accept a clean manifest", () => {
+    expect(lintManifest(createManifest())).toEqual([]);
+  });
+
+  it("should report duplicate resource names", () => {
+    const findings = lintManifest(
+      createManifest({}, [createResource("api"), createResource("api", { envSecretName: "OTHER" })]),
+    );
+    expect(findings).toEqual([
+      {
+        rule: "duplicate-resource-name",
+        severity: "error",
+        path: ["resources", 1, "name"],
+        message: 'Resource name "api" is already used',
+      },
+    ]);
+  });
+
+  it("should report a domain claimed by two resources regardless of scheme", () => {
+    const findings = lintManifest(
+      createManifest({}, [
+        createResource("api", { domains: "https://example.com" }),
+        createResource("web", { domains: "https://www.example.com, http://Example.com/" }),
+      ]),
+    );
+    expect(findings.filter((f) => f.rule === "duplicate-domain")).toEqual([
+      {
+        rule: "duplicate-domain",
+        severity: "warning",
+        path: ["resources", 1, "domains"],
+        message: `Domain "http://Example.com/" is also claimed by resource 'api'`,
+      },
+    ]);
+  });
+
+  it("should compare compose service domains", () => {
+    const findings = lintManifest(
+      createManifest({}, [
+        createResource("api", { domains: "https://example.com" }),
+        {
+          name: "stack",
+          type: "compose",
+          composeFile: "docker-compose.yml",
+          envSecretName: "COOLIFY_ENV_STACK",
+          serviceDomains: { web: "https://example.com" },
+        },
+      ]),
+    );
+    expect(findings.map((f) => [f.rule, f.path])).toEqual([
+      ["duplicate-domain", ["resources", 1, "serviceDomains", "web"]],
+    ]);
+  });
+
+  it("should report a health check port that is not exposed", () => {
+    const findings = lintManifest(
+      createManifest({}, [createResource("api", { healthCheck: { path: "/health", port: "8080" } })]),
+    );
+    expect(findings).toEqual([
+      {
+        rule: "health-check-port-not-exposed",
+        severity: "warning",
+        path: ["resources", 0, "healthCheck", "port"],
+        message: 'Health check port 8080 is not listed in portsExposes "3000"',
+      },
+    ]);
+  });
+
+  it("should warn about shared env secrets, domains without scheme and privileged ports", () => {
+    const findings = lintManifest(
+      createManifest({}, [
+        createResource("api", { envSecretName: "SHARED", domains: "api.example.com", portsExposes: "80" }),
+        createResource("worker", { envSecretName: "SHARED", portsMappings: "443:8443" }),
+      ]),
+    );
+    expect(findings.map((f) => [f.rule, f.severity, f.path.join(".")])).toEqual([
+      ["duplicate-env-secret", "warning", "resources.1.envSecretName"],
+      ["domain-missing-scheme", "warning", "resources.0.domains"],
+      ["privileged-port", "warning", "resources.0.portsExposes"],
+      ["privileged-port", "warning", "resources.1.portsMappings"],
+    ]);
+  });
+
+  it("should apply severities and disabled rules from the manifest", () => {
+    const findings = lintManifest(
+      createManifest({ lint: { rules: { "domain-missing-scheme": "off", "privileged-port": "error" } } }, [
+        createResource("api", { domains: "api.example.com", portsExposes: "80" }),
+      ]),
+    );
+    expect(findings.map((f) => [f.rule, f.severity])).toEqual([["privileged-port", "error"]]);
+  });
+
+  it("should let the manifest raise warnings to errors", () => {
+    const findings = lintManifest(
+      createManifest({ lint: { rules: { "health-check-port-not-exposed": "error" } } }, [
+        createResource("api", { healthCheck: { path: "/health", port: "8080" } }),
+      ]),
+    );
+    expect(findings.map((f) => [f.rule, f.severity])).toEqual([["health-check-port-not-exposed", "error"]]);
+  });
+
+  it("should reject unknown rule ids in the manifest", () => {
+    expect(() => createManifest({ lint: { rules: { "no-such-rule": "off" } } })).toThrow();
+  });
+});
+
+describe("formatLintFinding", () => {
+  it("should include the severity, path and rule id", () => {
+    expect(
+      formatLintFinding({
+        rule: "privileged-port",
+        severity: "warning",
+        path: ["resources", 0, "portsExposes"],
+        message: "Exposed port 80 is below 1024",
+      }),
+    ).toBe("warning resources.0.portsExposes: Exposed port 80 is below 1024 (privileged-port)");
+  });
+});
@@ -0,0 +1,199 @@
+import type { LintRuleId, Manifest, ManifestResource } from "./manifest";
+
+/**
+ * Severity of a lint finding. Errors stop `apply` and `plan`; warnings are only reported.
+ */
+export type LintSeverity = "error" | "warning";
+
+/**
+ * A problem found by a lint rule in a parsed manifest.
+ */
+export interface LintFinding {
+  rule: LintRuleId;
+  severity: LintSeverity;
+  path: PropertyKey[];
+  message: string;
+}
+
+/**
+ * A semantic check on a parsed manifest, for mistakes the schema accepts.
+ */
+export interface LintRule {
+  id: LintRuleId;
+  /** Severity used unless the manifest's `lint.rules` overrides it */
+  severity: LintSeverity;
+  description: string;
+  check(manifest: Manifest): Pick<LintFinding, "path" | "message">[];
+}
+
+const SCHEME_PATTERN = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part !== "");
+}
+
+/**
+ * Lists the domains a resource claims with the path of the field declaring them.
+ * Compose resources declare domains per service.
+ */
+function listDomains(resource: ManifestResource, index: number): { domain: string; path: PropertyKey[] }[] {
+  if (resource.type === "compose") {
+    return Object.entries(resource.serviceDomains ?? {}).flatMap(([service, domains]) =>
+      splitList(domains).map((domain) => ({ domain, path: ["resources", index, "serviceDomains", service] })),
+    );
+  }
+  return splitList(resource.domains).map((domain) => ({ domain, path: ["resources", index, "domains"] }));
+}
+
+/**
+ * Reduces a domain to the part Coolify routes on, so `https://a.com/` and `a.com` compare equal.
+ */
+function normalizeDomain(domain: string): string {
+  return domain.replace(SCHEME_PATTERN, "").replace(/\/+$/, "").toLowerCase();
+}
+
+/**
+ * Rules run by `lintManifest`, in reporting order.
+ */
+export const LINT_RULES: readonly LintRule[] = [
+  {
+    id: "duplicate-resource-name",
+    severity: "error",
+    description: "Two resources share a name, so both reconcile against the same Coolify application",
+    check(manifest) {
+      const seen = new Set<string>();
+      return manifest.resources.flatMap((resource, index) => {
+        const duplicate = seen.has(resource.name);
+        seen.add(resource.name);
+        return duplicate
+          ? [{ path: ["resources", index, "name"], message: `Resource name "${resource.name}" is already used` }]
+          : [];
+      });
+    },
+  },
+  {
+    id: "duplicate-domain",
+    severity: "warning",
+    description: "The same domain is claimed by two resources",
+    check(manifest) {
+      const owners = new Map<string, string>();
+      return manifest.resources.flatMap((resource, index) =>
+        listDomains(resource, index).flatMap(({ domain, path }) => {
+          const key = normalizeDomain(domain);
+          const owner = owners.get(key);
+          if (owner === undefined) {
+            owners.set(key, resource.name);
+            return [];
+          }
+          return owner === resource.name
+            ? []
+            : [{ path, message: `Domain "${domain}" is also claimed by resource '${owner}'` }];
+        }),
+      );
+    },
+  },
+  {
+    id: "health-check-port-not-exposed",
+    severity: "warning",
+    description: "The health check probes a port that is not listed in portsExposes",
+    check(manifest) {
+      return manifest.resources.flatMap((resource, index) => {
+        if (resource.type === "compose" || !resource.healthCheck) {
+          return [];
+        }
+        const { port } = resource.healthCheck;
+        return splitList(resource.portsExposes).includes(port)
+          ? []
+          : [
+              {
+                path: ["resources", index, "healthCheck", "port"],
+                message: `Health check port ${port} is not listed in portsExposes "${resource.portsExposes}"`,
+              },
+            ];
+      });
+    },
+  },
+  {
+    id: "duplicate-env-secret",
+    severity: "warning",
+    description: "Two resources read their environment variables from the same secret",
+    check(manifest) {
+      const owners = new Map<string, string>();
+      return manifest.resources.flatMap((resource, index) => {
+        const owner = owners.get(resource.envSecretName);
+        if (owner === undefined) {
+          owners.set(resource.envSecretName, resource.name);
+          return [];
+        }
+        return [
+          {
+            path: ["resources", index, "envSecretName"],
+            message: `Secret "${resource.envSecretName}" is also used by resource '${owner}'`,
+          },
+        ];
+      });
+    },
+  },
+  {
+    id: "domain-missing-scheme",
+    severity: "warning",
+    description: "A domain has no http:// or https:// scheme",
+    check(manifest) {
+      return manifest.resources.flatMap((resource, index) =>
+        listDomains(resource, index)
+          .filter(({ domain }) => !SCHEME_PATTERN.test(domain))
+          .map(({ domain, path }) => ({ path, message: `Domain "${domain}" has no scheme (e.g. https://${domain})` })),
+      );
+    },
+  },
+  {
+    id: "privileged-port",
+    severity: "warning",
+    description: "An exposed port or host port mapping is below 1024",
+    check(manifest) {
+      return manifest.resources.flatMap((resource, index) => {
+        if (resource.type === "compose") {
+          return [];
+        }
+        const exposed = splitList(resource.portsExposes)
+          .filter((port) => Number(port) < 1024)
+          .map((port) => ({
+            path: ["resources", index, "portsExposes"],
+            message: `Exposed port ${port} is below 1024`,
+          }));
+        const mapped = splitList(resource.portsMappings ?? "")
+          .filter((mapping) => Number(mapping.split(":")[0]) < 1024)
+          .map((mapping) => ({
+            path: ["resources", index, "portsMappings"],
+            message: `Host port in mapping "${mapping}" is below 1024`,
+          }));
+        return [...exposed, ...mapped];
+      });
+    },
+  },
+];
+
+/**
+ * Runs the lint rules on a parsed manifest. Severities from the manifest's `lint.rules`
+ * replace the rule defaults, and rules set to "off" are skipped.
+ */
+export function lintManifest(manifest: Manifest): LintFinding[] {
+  return LINT_RULES.flatMap((rule) => {
+    const severity = manifest.lint?.rules?.[rule.id] ?? rule.severity;
+    if (severity === "off") {
+      return [];
+    }
+    return rule.check(manifest).map((finding) => ({ rule: rule.id, severity, ...finding }));
+  });
+}
+
+/**
+ * Formats a finding as `severity path: message (rule)`.
+ */
+export function formatLintFinding(finding: LintFinding): string {
+  const path = finding.path.length > 0 ? ` ${finding.path.map(String).join(".")}:` : "";
+  return `${finding.severity}${path} ${finding.message} (${finding.rule})`;
+}
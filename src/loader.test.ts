@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { detectManifestFormat, ManifestError, parseManifestContent, parseManifestSource } from "./loader";
+
+const yamlManifest = `# Shared project settings
+projectId: project-uuid
+destinationId: destination-uuid
+resources:
+  # The API listens on 3000 behind the proxy
+  - name: my-app
+    dockerImageName: ghcr.io/owner/repo/app
+    envSecretName: MY_APP_ENV
+    portsExposes: "3000"
+`;
+
+const json5Manifest = `{
+  // Shared project settings
+  projectId: "project-uuid",
+  destinationId: 'destination-uuid',
+  resources: [
+    {
+      name: "my-app",
+      dockerImageName: "ghcr.io/owner/repo/app",
+      envSecretName: "MY_APP_ENV",
+      portsExposes: "3000", // health check uses the same port
+    },
+  ],
+}
+`;
+
+const getManifestError = (fn: () => unknown): ManifestError => {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof ManifestError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error("Expected a ManifestError");
+};
+
+describe("detectManifestFormat", () => {
+  it("should detect formats by extension", () => {
+    expect(detectManifestFormat("coolify.manifest.yaml")).toBe("yaml");
+    expect(detectManifestFormat("coolify.manifest.YML")).toBe("yaml");
+    expect(detectManifestFormat("coolify.manifest.json5")).toBe("json5");
+    expect(detectManifestFormat("coolify.manifest.json")).toBe("json");
+    expect(detectManifestFormat("manifest")).toBe("json");
+  });
+});
+
+describe("parseManifestContent", () => {
+  it("should parse a YAML manifest with comments", () => {
+    const manifest = parseManifestContent(yamlManifest, "yaml", "coolify.manifest.yaml");
+    expect(manifest.projectId).toBe("project-uuid");
+    expect(manifest.resources[0]).toMatchObject({ portsExposes: "3000" });
+  });
+
+  it("should parse a JSON5 manifest with comments and trailing commas", () => {
+    const manifest = parseManifestContent(json5Manifest, "json5", "coolify.manifest.json5");
+    expect(manifest.destinationId).toBe("destination-uuid");
+    expect(manifest.resources[0].name).toBe("my-app");
+  });
+
+  it("should reject comments in plain JSON", () => {
+    const error = getManifestError(() => parseManifestContent(json5Manifest, "json", "coolify.manifest.json"));
+    expect(error.issues[0].location).toEqual({ line: 2, column: 3 });
+  });
+
+  it("should report the location of an invalid YAML value", () => {
+    const content = yamlManifest.replace('portsExposes: "3000"', 'portsExposes: "not-a-port"');
+    const error = getManifestError(() => parseManifestContent(content, "yaml", "coolify.manifest.yaml"));
+
+    expect(error.issues).toHaveLength(1);
+    expect(error.issues[0].path).toEqual(["resources", 0, "portsExposes"]);
+    expect(error.issues[0].location).toEqual({ line: 9, column: 5 });
+    expect(error.message).toContain("coolify.manifest.yaml:9:5 resources.0.portsExposes:");
+  });
+
+  it("should report the location of an unrecognized JSON5 key", () => {
+    const content = json5Manifest.replace("portsExposes:", "portExposes:");
+    const error = getManifestError(() => parseManifestContent(content, "json5", "coolify.manifest.json5"));
+
+    expect(error.issues).toEqual([
+      {
+        path: ["resources", 0, "portExposes"],
+        message: 'Unrecognized key "portExposes"',
+        location: { line: 10, column: 7 },
+      },
+    ]);
+  });
+
+  it("should fall back to the enclosing object for missing keys", () => {
+    const content = yamlManifest.replace("    envSecretName: MY_APP_ENV\n", "");
+    const error = getManifestError(() => parseManifestContent(content, "yaml", "coolify.manifest.yaml"));
+
+    expect(error.issues[0].path).toEqual(["resources", 0, "envSecretName"]);
+    expect(error.issues[0].location).toEqual({ line: 6, column: 5 });
+  });
+
+  it("should interpolate variables before validation", () => {
+    const content = yamlManifest.replace("project-uuid", "${PROJECT_ID}");
+    const manifest = parseManifestContent(content, "yaml", "coolify.manifest.yaml", {
+      variables: { PROJECT_ID: "from-var" },
+    });
+    expect(manifest.projectId).toBe("from-var");
+  });
+
+  it("should report the location of an unresolved variable", () => {
+    const content = yamlManifest.replace('"3000"', '"${PORT}"');
+    const error = getManifestError(() =>
+      parseManifestContent(content, "yaml", "coolify.manifest.yaml", { variables: {} }),
+    );
+
+    expect(error.issues).toEqual([
+      {
+        path: ["resources", 0, "portsExposes"],
+        message: 'Unresolved variable "PORT" (set it in the environment or with --var)',
+        location: { line: 9, column: 5 },
+      },
+    ]);
+  });
+
+  it("should report YAML syntax errors with a location", () => {
+    const error = getManifestError(() => parseManifestContent("projectId: [\n", "yaml", "coolify.manifest.yaml"));
+    expect(error.issues[0].location).toBeDefined();
+  });
+});
+
+describe("parseManifestSource", () => {
+  it("should locate nested keys in JSON", () => {
+    const source = parseManifestSource('{\n  "a": {\n    "b": [1, 2]\n  }\n}', "json", "test.json");
+    expect(source.data).toEqual({ a: { b: [1, 2] } });
+    expect(source.locate(["a", "b"])).toEqual({ line: 3, column: 5 });
+    expect(source.locate(["a", "b", 1])).toEqual({ line: 3, column: 14 });
+  });
+});
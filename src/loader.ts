@@ -0,0 +1,240 @@
+import { evaluate, parse as parseJson, type ElementNode, type MemberNode, type ValueNode } from "@humanwhocodes/momoa";
+import { readFile } from "node:fs/promises";
+import { extname, relative, resolve } from "node:path";
+import { isMap, isScalar, isSeq, LineCounter, parseDocument, type Node as YamlNode } from "yaml";
+import type { z } from "zod";
+import { safeParseManifest, type Manifest, type ParseManifestOptions } from "./manifest";
+import { interpolateManifest, type ManifestVariables } from "./variables";
+
+/**
+ * Supported manifest file formats.
+ */
+export type ManifestFormat = "json" | "json5" | "yaml";
+
+/**
+ * A 1-based line and column inside a manifest file.
+ */
+export interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+/**
+ * A single problem found while loading a manifest.
+ */
+export interface ManifestIssue {
+  path: PropertyKey[];
+  message: string;
+  location?: SourceLocation;
+}
+
+/**
+ * Options for loading a manifest file.
+ */
+export interface LoadManifestOptions extends ParseManifestOptions {
+  /** Values for `${VAR}` placeholders, defaults to the process environment */
+  variables?: ManifestVariables;
+}
+
+/**
+ * A parsed manifest document that can map value paths back to source locations.
+ */
+export interface ManifestSource {
+  data: unknown;
+  locate(path: PropertyKey[]): SourceLocation | undefined;
+}
+
+/**
+ * Error thrown when a manifest file cannot be parsed or fails validation.
+ */
+export class ManifestError extends Error {
+  readonly file: string;
+  readonly issues: ManifestIssue[];
+
+  constructor(file: string, issues: ManifestIssue[]) {
+    super(`Invalid manifest ${file}:\n${issues.map((issue) => `  ${formatIssue(file, issue)}`).join("\n")}`);
+    this.name = "ManifestError";
+    this.file = file;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Formats an issue as `file:line:column path: message`.
+ */
+export function formatIssue(file: string, issue: ManifestIssue): string {
+  const position = issue.location ? `${file}:${issue.location.line}:${issue.location.column}` : file;
+  const path = issue.path.length > 0 ? ` ${issue.path.map(String).join(".")}:` : "";
+  return `${position}${path} ${issue.message}`;
+}
+
+/**
+ * Detects the manifest format from the file extension. Unknown extensions are read as JSON.
+ */
+export function detectManifestFormat(path: string): ManifestFormat {
+  switch (extname(path).toLowerCase()) {
+    case ".yaml":
+    case ".yml":
+      return "yaml";
+    case ".json5":
+      return "json5";
+    default:
+      return "json";
+  }
+}
+
+function parseYamlSource(content: string, file: string): ManifestSource {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter });
+
+  if (doc.errors.length > 0) {
+    throw new ManifestError(
+      file,
+      doc.errors.map((error) => ({
+        path: [],
+        message: error.message.split("\n")[0],
+        location: error.linePos ? { line: error.linePos[0].line, column: error.linePos[0].col } : undefined,
+      })),
+    );
+  }
+
+  const toLocation = (offset: number): SourceLocation => {
+    const { line, col } = lineCounter.linePos(offset);
+    return { line, column: col };
+  };
+
+  return {
+    data: doc.toJS(),
+    locate(path) {
+      let node = doc.contents as YamlNode | null;
+      let location = node?.range ? toLocation(node.range[0]) : undefined;
+
+      for (const segment of path) {
+        if (isMap(node)) {
+          const pair = node.items.find((item) => isScalar(item.key) && String(item.key.value) === String(segment));
+          if (!pair) break;
+          const key = pair.key as YamlNode;
+          if (key.range) location = toLocation(key.range[0]);
+          node = pair.value as YamlNode | null;
+        } else if (isSeq(node) && typeof segment === "number") {
+          const item = node.items[segment] as YamlNode | undefined;
+          if (!item) break;
+          if (item.range) location = toLocation(item.range[0]);
+          node = item;
+        } else {
+          break;
+        }
+      }
+
+      return location;
+    },
+  };
+}
+
+function parseJsonSource(content: string, file: string, mode: "json" | "json5"): ManifestSource {
+  let ast;
+  try {
+    ast = parseJson(content, { mode });
+  } catch (error) {
+    const { line, column } = error as { line?: number; column?: number };
+    throw new ManifestError(file, [
+      {
+        path: [],
+        message: (error instanceof Error ? error.message : String(error)).replace(/\s*\(\d+:\d+\)$/, ""),
+        location: line && column ? { line, column } : undefined,
+      },
+    ]);
+  }
+
+  return {
+    data: evaluate(ast),
+    locate(path) {
+      let node: ValueNode | undefined = ast.body;
+      let location: SourceLocation = ast.body.loc.start;
+
+      for (const segment of path) {
+        if (node?.type === "Object") {
+          const member: MemberNode | undefined = node.members.find(
+            (m) => (m.name.type === "String" ? m.name.value : m.name.name) === String(segment),
+          );
+          if (!member) break;
+          location = member.name.loc.start;
+          node = member.value;
+        } else if (node?.type === "Array" && typeof segment === "number") {
+          const element: ElementNode | undefined = node.elements[segment];
+          if (!element) break;
+          location = element.loc.start;
+          node = element.value;
+        } else {
+          break;
+        }
+      }
+
+      return { line: location.line, column: location.column };
+    },
+  };
+}
+
+/**
+ * Parses manifest file contents in the given format, keeping track of source locations.
+ * @throws {ManifestError} if the content is not well-formed
+ */
+export function parseManifestSource(content: string, format: ManifestFormat, file: string): ManifestSource {
+  return format === "yaml" ? parseYamlSource(content, file) : parseJsonSource(content, file, format);
+}
+
+/**
+ * Converts Zod issues into manifest issues located in the source.
+ */
+export function locateIssues(source: ManifestSource, issues: z.core.$ZodIssue[]): ManifestIssue[] {
+  return issues.flatMap((issue) => {
+    // Point unknown keys at the key itself rather than the enclosing object
+    if (issue.code === "unrecognized_keys") {
+      return issue.keys.map((key) => {
+        const path = [...issue.path, key];
+        return { path, message: `Unrecognized key "${key}"`, location: source.locate(path) };
+      });
+    }
+    return [{ path: issue.path, message: issue.message, location: source.locate(issue.path) }];
+  });
+}
+
+/**
+ * Parses, interpolates and validates manifest file contents.
+ * @throws {ManifestError} if the content cannot be parsed, has unresolved variables or fails validation
+ */
+export function parseManifestContent(
+  content: string,
+  format: ManifestFormat,
+  file: string,
+  options: LoadManifestOptions = {},
+): Manifest {
+  const { variables = process.env, ...parseOptions } = options;
+  const source = parseManifestSource(content, format, file);
+
+  const interpolated = interpolateManifest(source.data, variables, parseOptions.environment);
+  if (interpolated.issues.length > 0) {
+    throw new ManifestError(
+      file,
+      interpolated.issues.map((issue) => ({ ...issue, location: source.locate(issue.path) })),
+    );
+  }
+
+  const parsed = safeParseManifest(interpolated.data, parseOptions);
+  if (!parsed.success) {
+    throw new ManifestError(file, locateIssues(source, parsed.error.issues));
+  }
+  return parsed.data;
+}
+
+/**
+ * Reads, parses and validates a manifest file. The format is detected from the extension.
+ * When an environment is given, the manifest is resolved for that entry in `environments`.
+ * @throws {ManifestError} if the file cannot be parsed or fails validation
+ */
+export async function loadManifestFile(manifestPath: string, options: LoadManifestOptions = {}): Promise<Manifest> {
+  const absolutePath = resolve(process.cwd(), manifestPath);
+  const content = await readFile(absolutePath, "utf-8");
+  const file = relative(process.cwd(), absolutePath);
+  return parseManifestContent(content, detectManifestFormat(absolutePath), file, options);
+}
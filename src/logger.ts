@@ -19,6 +19,16 @@ export function createLogger(env: Env): pino.Logger {
       },
     },
     timestamp: pino.stdTimeFunctions.isoTime,
+    redact: {
+      paths: [
+        "options.http_basic_auth_password",
+        "options.postgres_password",
+        "options.mysql_password",
+        "options.mysql_root_password",
+        "options.redis_password",
+      ],
+      censor: "[redacted]",
+    },
   });
 }
 
@@ -1,12 +1,20 @@
 import { describe, expect, it } from "vitest";
 import {
+  applyResourceDefaults,
+  createManifestJsonSchema,
+  hooksSchema,
+  limitsSchema,
+  listSecretReferences,
+  manifestResourceSchema,
   manifestSchema,
+  orderByDependencies,
   parseManifest,
   resourceSchema,
   safeParseManifest,
   type Manifest,
   type Resource,
 } from "./manifest";
+import { MANIFEST_VERSION } from "./migrations";
 
 describe("Manifest Schema", () => {
   describe("resourceSchema", () => {
@@ -78,6 +86,39 @@ describe("Manifest Schema", () => {
       expect(result.success).toBe(true);
     });
 
+    it("should accept host:container port mappings", () => {
+      const result = resourceSchema.safeParse({
+        name: "db",
+        dockerImageName: "postgres",
+        envSecretName: "DB_ENV",
+        portsMappings: "5432:5432, 8080:80",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject invalid port mappings", () => {
+      for (const portsMappings of ["5432", "70000:80", "a:b"]) {
+        const result = resourceSchema.safeParse({
+          name: "db",
+          dockerImageName: "postgres",
+          envSecretName: "DB_ENV",
+          portsMappings,
+        });
+        expect(result.success).toBe(false);
+        expect(result.error?.issues[0].path).toEqual(["portsMappings"]);
+      }
+    });
+
+    it("should reject multiline label values", () => {
+      const result = resourceSchema.safeParse({
+        name: "api",
+        dockerImageName: "ghcr.io/owner/api",
+        envSecretName: "API_ENV",
+        customLabels: { "traefik.enable": "true\nother=1" },
+      });
+      expect(result.success).toBe(false);
+    });
+
     it("should accept a resource without networking", () => {
       const resource: Partial<Resource> = {
         name: "my-app",
@@ -94,6 +135,159 @@ describe("Manifest Schema", () => {
     });
   });
 
+  describe("git resources", () => {
+    const gitResource = {
+      type: "git",
+      name: "web",
+      envSecretName: "WEB_ENV",
+      repository: "https://github.com/owner/web",
+    };
+
+    it("should apply git defaults", () => {
+      const result = resourceSchema.parse(gitResource);
+      expect(result).toMatchObject({ type: "git", branch: "main", buildPack: "nixpacks" });
+    });
+
+    it("should not require a docker image", () => {
+      expect(resourceSchema.safeParse({ ...gitResource, dockerImageName: "ghcr.io/owner/web" }).success).toBe(false);
+    });
+
+    it("should reject both a GitHub App and a deploy key", () => {
+      const result = resourceSchema.safeParse({ ...gitResource, githubAppUuid: "app", privateKeyUuid: "key" });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].path).toEqual(["privateKeyUuid"]);
+    });
+
+    it("should reject an unknown resource type", () => {
+      expect(resourceSchema.safeParse({ ...gitResource, type: "helm" }).success).toBe(false);
+    });
+
+    it("should only apply type-specific defaults to matching resources", () => {
+      const manifest = parseManifest({
+        projectId: "project-uuid",
+        destinationId: "destination-uuid",
+        defaults: { dockerImageName: "ghcr.io/owner/{name}", branch: "develop" },
+        resources: [{ name: "api", envSecretName: "API_ENV" }, gitResource],
+      });
+
+      expect(manifest.resources[0]).toMatchObject({ dockerImageName: "ghcr.io/owner/api" });
+      expect(manifest.resources[0]).not.toHaveProperty("branch");
+      expect(manifest.resources[1]).toMatchObject({ type: "git", branch: "develop" });
+      expect(manifest.resources[1]).not.toHaveProperty("dockerImageName");
+    });
+  });
+
+  describe("compose resources", () => {
+    const composeResource = {
+      type: "compose",
+      name: "stack",
+      envSecretName: "STACK_ENV",
+      composeFile: "docker-compose.yml",
+      serviceDomains: { web: "https://stack.example.com" },
+    };
+
+    it("should parse a compose resource", () => {
+      expect(manifestResourceSchema.parse(composeResource)).toMatchObject({
+        type: "compose",
+        composeFile: "docker-compose.yml",
+        description: "",
+      });
+    });
+
+    it("should reject fields declared in the compose file", () => {
+      expect(manifestResourceSchema.safeParse({ ...composeResource, portsExposes: "3000" }).success).toBe(false);
+    });
+
+    it("should not be an application resource", () => {
+      expect(resourceSchema.safeParse(composeResource).success).toBe(false);
+    });
+
+    it("should only apply fields that compose resources accept from defaults", () => {
+      const manifest = parseManifest({
+        projectId: "project-uuid",
+        destinationId: "destination-uuid",
+        defaults: { description: "Managed", portsExposes: "8080", limits: { memory: "512m" } },
+        resources: [composeResource],
+      });
+
+      expect(manifest.resources[0]).toMatchObject({ description: "Managed" });
+      expect(manifest.resources[0]).not.toHaveProperty("portsExposes");
+      expect(manifest.resources[0]).not.toHaveProperty("limits");
+    });
+  });
+
+  describe("limitsSchema", () => {
+    it("should accept memory units and CPU counts", () => {
+      const limits = limitsSchema.parse({
+        memory: "2G",
+        memorySwap: "-1",
+        memoryReservation: "512m",
+        memorySwappiness: 10,
+        cpus: 1.5,
+        cpuset: "0-3,6",
+        cpuShares: 512,
+      });
+
+      expect(limits).toEqual({
+        memory: "2g",
+        memorySwap: "-1",
+        memoryReservation: "512m",
+        memorySwappiness: 10,
+        cpus: "1.5",
+        cpuset: "0-3,6",
+        cpuShares: 512,
+      });
+    });
+
+    it("should accept CPUs as a string", () => {
+      expect(limitsSchema.parse({ cpus: "0.5" }).cpus).toBe("0.5");
+    });
+
+    it("should reject invalid memory sizes", () => {
+      const result = limitsSchema.safeParse({ memory: "2gb" });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].path).toEqual(["memory"]);
+    });
+
+    it("should reject a reservation above the memory limit", () => {
+      const result = limitsSchema.safeParse({ memory: "512m", memoryReservation: "1g" });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].path).toEqual(["memoryReservation"]);
+    });
+
+    it("should reject swap below the memory limit", () => {
+      const result = limitsSchema.safeParse({ memory: "1g", memorySwap: "512m" });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].path).toEqual(["memorySwap"]);
+    });
+
+    it("should reject unknown limits", () => {
+      expect(limitsSchema.safeParse({ gpus: 1 }).success).toBe(false);
+    });
+  });
+
+  describe("hooksSchema", () => {
+    it("should accept commands with an optional container", () => {
+      const hooks = hooksSchema.parse({
+        preDeploy: { command: "npm run migrate" },
+        postDeploy: { command: "npm run warm-cache", container: "worker" },
+      });
+
+      expect(hooks.preDeploy).toEqual({ command: "npm run migrate" });
+      expect(hooks.postDeploy?.container).toBe("worker");
+    });
+
+    it("should reject an empty command", () => {
+      const result = hooksSchema.safeParse({ preDeploy: { command: "" } });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].path).toEqual(["preDeploy", "command"]);
+    });
+
+    it("should reject unknown hooks", () => {
+      expect(hooksSchema.safeParse({ onFailure: { command: "notify" } }).success).toBe(false);
+    });
+  });
+
   describe("manifestSchema", () => {
     it("should validate a complete manifest", () => {
       const manifest: Manifest = {
@@ -173,6 +367,480 @@ describe("Manifest Schema", () => {
     });
   });
 
+  describe("defaults", () => {
+    const createManifestWithDefaults = (resources: unknown[]) => ({
+      projectId: "project-uuid",
+      destinationId: "destination-uuid",
+      defaults: {
+        description: "The {name} service.",
+        envSecretName: "COOLIFY_ENV_{name}",
+        portsExposes: "3000",
+        healthCheck: {
+          path: "/health",
+          interval: 30,
+          timeout: 5,
+          retries: 3,
+        },
+      },
+      resources,
+    });
+
+    it("should merge defaults into every resource", () => {
+      const manifest = parseManifest(
+        createManifestWithDefaults([
+          { name: "api", dockerImageName: "ghcr.io/owner/api", healthCheck: { port: "3000" } },
+          { name: "web", dockerImageName: "ghcr.io/owner/web" },
+        ]),
+      );
+
+      expect(manifest.resources[0]).toMatchObject({
+        name: "api",
+        description: "The api service.",
+        envSecretName: "COOLIFY_ENV_api",
+        portsExposes: "3000",
+        healthCheck: { path: "/health", port: "3000", interval: 30, timeout: 5, retries: 3 },
+      });
+      expect(manifest.resources[1].description).toBe("The web service.");
+    });
+
+    it("should let resource values win over defaults", () => {
+      const manifest = parseManifest(
+        createManifestWithDefaults([
+          {
+            name: "api",
+            dockerImageName: "ghcr.io/owner/api",
+            envSecretName: "API_ENV",
+            portsExposes: "8080",
+            healthCheck: { port: "8080", path: "/status", retries: 10 },
+          },
+        ]),
+      );
+
+      expect(manifest.resources[0]).toMatchObject({
+        envSecretName: "API_ENV",
+        portsExposes: "8080",
+        healthCheck: { path: "/status", port: "8080", interval: 30, timeout: 5, retries: 10 },
+      });
+    });
+
+    it("should not add a health check to resources that do not declare one", () => {
+      const manifest = parseManifest(
+        createManifestWithDefaults([{ name: "worker", dockerImageName: "ghcr.io/owner/worker" }]),
+      );
+
+      expect(manifest.resources[0]).not.toHaveProperty("healthCheck");
+    });
+
+    it("should apply default limits to every resource", () => {
+      const manifest = parseManifest({
+        ...createManifestWithDefaults([
+          { name: "api", dockerImageName: "ghcr.io/owner/api", limits: { cpus: 2 } },
+          { name: "worker", dockerImageName: "ghcr.io/owner/worker" },
+        ]),
+        defaults: { envSecretName: "COOLIFY_ENV_{name}", limits: { memory: "512m", cpus: 1 } },
+      });
+
+      const [api, worker] = manifest.resources as Resource[];
+      expect(api.limits).toEqual({ memory: "512m", cpus: "2" });
+      expect(worker.limits).toEqual({ memory: "512m", cpus: "1" });
+    });
+
+    it("should reject unknown keys in defaults", () => {
+      const result = manifestSchema.safeParse({
+        ...createManifestWithDefaults([{ name: "api", dockerImageName: "ghcr.io/owner/api" }]),
+        defaults: { name: "not-allowed" },
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it("should report validation errors on the merged resource", () => {
+      const result = manifestSchema.safeParse({
+        ...createManifestWithDefaults([{ name: "api", dockerImageName: "ghcr.io/owner/api" }]),
+        defaults: { envSecretName: "API_ENV", portsExposes: "not-a-port" },
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues.map((i) => i.path)).toContainEqual(["resources", 0, "portsExposes"]);
+      }
+    });
+  });
+
+  describe("applyResourceDefaults", () => {
+    it("should not replace arrays element by element", () => {
+      expect(applyResourceDefaults({ list: [1, 2, 3] }, { name: "api", list: [4] })).toEqual({
+        name: "api",
+        list: [4],
+      });
+    });
+  });
+
+  describe("environments", () => {
+    const createMultiEnvironmentManifest = () => ({
+      projectId: "project-uuid",
+      destinationId: "prod-destination-uuid",
+      serverId: "prod-server-uuid",
+      defaults: { portsExposes: "3000" },
+      resources: [
+        {
+          name: "api",
+          dockerImageName: "ghcr.io/owner/api",
+          envSecretName: "COOLIFY_ENV_API",
+          domains: "https://api.example.com",
+        },
+        { name: "worker", dockerImageName: "ghcr.io/owner/worker", envSecretName: "COOLIFY_ENV_WORKER" },
+      ],
+      environments: {
+        staging: {
+          destinationId: "staging-destination-uuid",
+          serverId: "staging-server-uuid",
+          envFileSecretName: "STAGING_ENV_FILE",
+          defaults: { portsExposes: "8080" },
+          resources: {
+            api: { domains: "https://api.staging.example.com", envSecretName: "COOLIFY_ENV_API_STAGING" },
+          },
+        },
+        preview: {
+          environmentName: "pr-preview",
+        },
+      },
+    });
+
+    it("should use the base manifest when no environment is selected", () => {
+      const manifest = parseManifest(createMultiEnvironmentManifest());
+
+      expect(manifest.environmentName).toBe("production");
+      expect(manifest.destinationId).toBe("prod-destination-uuid");
+      expect(manifest.resources[0]).toMatchObject({ domains: "https://api.example.com" });
+    });
+
+    it("should resolve the selected environment", () => {
+      const manifest = parseManifest(createMultiEnvironmentManifest(), { environment: "staging" });
+
+      expect(manifest.environmentName).toBe("staging");
+      expect(manifest.destinationId).toBe("staging-destination-uuid");
+      expect(manifest.serverId).toBe("staging-server-uuid");
+      expect(manifest.envFileSecretName).toBe("STAGING_ENV_FILE");
+      expect(manifest.resources[0]).toMatchObject({
+        name: "api",
+        domains: "https://api.staging.example.com",
+        envSecretName: "COOLIFY_ENV_API_STAGING",
+        portsExposes: "8080",
+      });
+      expect(manifest.resources[1]).toMatchObject({
+        name: "worker",
+        envSecretName: "COOLIFY_ENV_WORKER",
+        portsExposes: "8080",
+      });
+    });
+
+    it("should allow overriding the Coolify environment name", () => {
+      const manifest = parseManifest(createMultiEnvironmentManifest(), { environment: "preview" });
+      expect(manifest.environmentName).toBe("pr-preview");
+      expect(manifest.destinationId).toBe("prod-destination-uuid");
+    });
+
+    it("should select the base environment by name", () => {
+      const manifest = parseManifest(createMultiEnvironmentManifest(), { environment: "production" });
+      expect(manifest.environmentName).toBe("production");
+    });
+
+    it("should reject an unknown environment", () => {
+      const result = safeParseManifest(createMultiEnvironmentManifest(), { environment: "qa" });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0]).toMatchObject({ path: ["environments"], message: 'Unknown environment "qa"' });
+      }
+    });
+
+    it("should reject overrides for unknown resources", () => {
+      const data = createMultiEnvironmentManifest();
+      data.environments.staging.resources = { ...data.environments.staging.resources, web: { domains: "x" } } as never;
+
+      const result = safeParseManifest(data);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].path).toEqual(["environments", "staging", "resources", "web"]);
+      }
+    });
+
+    it("should reject unknown keys in an environment", () => {
+      const data = { ...createMultiEnvironmentManifest(), environments: { staging: { projectId: "other" } } };
+      expect(safeParseManifest(data).success).toBe(false);
+    });
+  });
+
+  describe("databases", () => {
+    const baseManifest = {
+      projectId: "project-uuid",
+      destinationId: "destination-uuid",
+      resources: [
+        {
+          name: "api",
+          dockerImageName: "ghcr.io/owner/api",
+          envSecretName: "API_ENV",
+          databaseUrls: { DATABASE_URL: "main-db" },
+        },
+      ],
+    };
+
+    it("should apply database defaults", () => {
+      const manifest = parseManifest({
+        ...baseManifest,
+        databases: [{ type: "postgresql", name: "main-db", passwordSecretName: "DB_PASSWORD" }],
+      });
+
+      expect(manifest.databases).toEqual([
+        {
+          type: "postgresql",
+          name: "main-db",
+          description: "",
+          passwordSecretName: "DB_PASSWORD",
+          username: "postgres",
+          databaseName: "postgres",
+        },
+      ]);
+    });
+
+    it("should reject references to undeclared databases", () => {
+      const result = manifestSchema.safeParse(baseManifest);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]).toMatchObject({
+        message: 'Unknown database "main-db"',
+        path: ["resources", 0, "databaseUrls", "DATABASE_URL"],
+      });
+    });
+
+    it("should reject a database named like a resource", () => {
+      const result = manifestSchema.safeParse({
+        ...baseManifest,
+        databases: [
+          { type: "redis", name: "main-db", passwordSecretName: "REDIS_PASSWORD" },
+          { type: "redis", name: "api", passwordSecretName: "REDIS_PASSWORD" },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues.map((i) => i.path)).toEqual([["databases", 1, "name"]]);
+    });
+
+    it("should reject engine fields on other engines", () => {
+      const result = manifestSchema.safeParse({
+        ...baseManifest,
+        databases: [{ type: "redis", name: "main-db", passwordSecretName: "P", username: "admin" }],
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("dependsOn", () => {
+    const createManifest = (dependencies: Record<string, string[]>) => ({
+      projectId: "project-uuid",
+      destinationId: "destination-uuid",
+      resources: Object.entries(dependencies).map(([name, dependsOn]) => ({
+        name,
+        dockerImageName: `ghcr.io/owner/${name}`,
+        envSecretName: `${name.toUpperCase()}_ENV`,
+        dependsOn,
+      })),
+    });
+
+    it("should accept dependencies between resources", () => {
+      expect(manifestSchema.safeParse(createManifest({ api: ["migrate"], migrate: [] })).success).toBe(true);
+    });
+
+    it("should reject unknown dependencies", () => {
+      const result = manifestSchema.safeParse(createManifest({ api: ["migrations"] }));
+
+      expect(result.error?.issues).toEqual([
+        expect.objectContaining({ message: 'Unknown resource "migrations"', path: ["resources", 0, "dependsOn", 0] }),
+      ]);
+    });
+
+    it("should reject dependency cycles", () => {
+      const result = manifestSchema.safeParse(
+        createManifest({ api: ["worker"], worker: ["migrate"], migrate: ["api"] }),
+      );
+
+      expect(result.error?.issues).toEqual([
+        expect.objectContaining({
+          message: "Dependency cycle: api -> worker -> migrate -> api",
+          path: ["resources", 0, "dependsOn"],
+        }),
+      ]);
+    });
+
+    it("should reject a resource depending on itself", () => {
+      const result = manifestSchema.safeParse(createManifest({ api: ["api"] }));
+
+      expect(result.error?.issues[0].message).toBe("Dependency cycle: api -> api");
+    });
+
+    it("should order resources after their dependencies", () => {
+      const ordered = orderByDependencies([
+        { name: "api", dependsOn: ["migrate"] },
+        { name: "web" },
+        { name: "migrate" },
+      ]);
+
+      expect(ordered.map((r) => r.name)).toEqual(["migrate", "api", "web"]);
+    });
+  });
+
+  describe("labels", () => {
+    const resource = { name: "api", dockerImageName: "ghcr.io/owner/api", envSecretName: "API_ENV" };
+
+    it("should accept selector labels on resources", () => {
+      const result = manifestResourceSchema.safeParse({ ...resource, labels: { team: "payments", "app/tier": "web" } });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject label values that cannot be selected", () => {
+      const result = manifestResourceSchema.safeParse({ ...resource, labels: { team: "a,b" } });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("storages", () => {
+    const resource = { name: "api", dockerImageName: "ghcr.io/owner/api", envSecretName: "API_ENV" };
+
+    it("should accept named volumes and bind mounts", () => {
+      const result = manifestResourceSchema.safeParse({
+        ...resource,
+        storages: [
+          { name: "data", mountPath: "/var/lib/data" },
+          { name: "uploads", mountPath: "/app/uploads", hostPath: "/srv/uploads" },
+        ],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject relative paths and shared mount paths", () => {
+      expect(
+        manifestResourceSchema.safeParse({ ...resource, storages: [{ name: "data", mountPath: "data" }] }).success,
+      ).toBe(false);
+      expect(
+        manifestResourceSchema.safeParse({
+          ...resource,
+          storages: [
+            { name: "data", mountPath: "/data" },
+            { name: "other", mountPath: "/data" },
+          ],
+        }).success,
+      ).toBe(false);
+    });
+  });
+
+  describe("scheduledTasks", () => {
+    const resource = { name: "api", dockerImageName: "ghcr.io/owner/api", envSecretName: "API_ENV" };
+    const parseFrequency = (frequency: string) =>
+      manifestResourceSchema.safeParse({
+        ...resource,
+        scheduledTasks: [{ name: "cleanup", command: "php artisan cleanup", frequency }],
+      }).success;
+
+    it("should accept cron expressions and schedule names", () => {
+      for (const frequency of ["0 3 * * *", "*/15 * * * *", "0 9-17/2 * JAN-JUN MON-FRI", "30 4 1,15 * 0", "daily"]) {
+        expect(parseFrequency(frequency), frequency).toBe(true);
+      }
+    });
+
+    it("should reject invalid cron expressions", () => {
+      for (const frequency of [
+        "* * * *",
+        "60 * * * *",
+        "0 24 * * *",
+        "0 0 0 * *",
+        "*/0 * * * *",
+        "5-1 * * * *",
+        "nightly",
+      ]) {
+        expect(parseFrequency(frequency), frequency).toBe(false);
+      }
+    });
+
+    it("should reject duplicate task names", () => {
+      const task = { name: "cleanup", command: "cleanup", frequency: "daily" };
+      const result = manifestResourceSchema.safeParse({ ...resource, scheduledTasks: [task, task] });
+      expect(result.success).toBe(false);
+    });
+
+    it("should accept tasks on compose resources", () => {
+      const result = manifestResourceSchema.safeParse({
+        type: "compose",
+        name: "stack",
+        envSecretName: "STACK_ENV",
+        composeFile: "docker-compose.yml",
+        scheduledTasks: [{ name: "backup", command: "backup.sh", frequency: "@daily", container: "worker" }],
+      });
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe("envFlags", () => {
+    const resource = { name: "api", dockerImageName: "ghcr.io/owner/api", envSecretName: "API_ENV" };
+
+    it("should accept flags per env var", () => {
+      const result = manifestResourceSchema.safeParse({
+        ...resource,
+        envFlags: { API_TOKEN: { shownOnce: true }, PUBLIC_URL: { literal: false, runtime: false } },
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject variables available neither at build time nor at runtime", () => {
+      const result = manifestResourceSchema.safeParse({
+        ...resource,
+        envFlags: { KEY: { buildTime: false, runtime: false } },
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject unknown flags", () => {
+      const result = manifestResourceSchema.safeParse({ ...resource, envFlags: { KEY: { hidden: true } } });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("listSecretReferences", () => {
+    it("should list enabled basic auth password secrets once", () => {
+      const manifest = parseManifest({
+        projectId: "project-uuid",
+        destinationId: "destination-uuid",
+        resources: ["admin", "metrics", "public"].map((name) => ({
+          name,
+          dockerImageName: `ghcr.io/owner/${name}`,
+          envSecretName: `${name.toUpperCase()}_ENV`,
+          basicAuth:
+            name === "public"
+              ? { enabled: false, username: "admin", passwordSecretName: "PUBLIC_PASSWORD" }
+              : { username: "admin", passwordSecretName: "ADMIN_PASSWORD" },
+        })),
+      });
+
+      expect(listSecretReferences(manifest)).toEqual(["ADMIN_PASSWORD"]);
+    });
+
+    it("should list database credential secrets", () => {
+      const manifest = parseManifest({
+        projectId: "project-uuid",
+        destinationId: "destination-uuid",
+        resources: [{ name: "api", dockerImageName: "ghcr.io/owner/api", envSecretName: "API_ENV" }],
+        databases: [
+          { type: "mysql", name: "mysql", passwordSecretName: "MYSQL_PASSWORD", rootPasswordSecretName: "MYSQL_ROOT" },
+          { type: "redis", name: "cache", passwordSecretName: "REDIS_PASSWORD" },
+        ],
+      });
+
+      expect(listSecretReferences(manifest)).toEqual(["MYSQL_PASSWORD", "MYSQL_ROOT", "REDIS_PASSWORD"]);
+    });
+  });
+
   describe("parseManifest", () => {
     it("should parse a valid manifest", () => {
       const manifest = {
@@ -233,4 +901,52 @@ describe("Manifest Schema", () => {
       expect(result.success).toBe(false);
     });
   });
+
+  describe("createManifestJsonSchema", () => {
+    const schema = createManifestJsonSchema() as {
+      required: string[];
+      properties: Record<string, { items?: { oneOf?: { required: string[] }[] } }>;
+    };
+
+    it("should describe the manifest as written", () => {
+      expect(schema.required).toEqual(["projectId", "destinationId", "resources"]);
+      expect(schema.properties.$schema).toBeDefined();
+      expect(schema.properties.databases).toBeDefined();
+    });
+
+    it("should only require name and type on resources", () => {
+      const variants = schema.properties.resources.items?.oneOf ?? [];
+      expect(variants.map((variant) => variant.required)).toEqual([["name"], ["name", "type"], ["name", "type"]]);
+    });
+  });
+
+  describe("version", () => {
+    const manifest = {
+      projectId: "project-uuid",
+      destinationId: "destination-uuid",
+      resources: [{ name: "app", dockerImageName: "ghcr.io/owner/app", envSecretName: "APP_ENV" }],
+    };
+
+    it("should read unversioned manifests as the current version", () => {
+      expect(parseManifest(manifest).version).toBe(MANIFEST_VERSION);
+    });
+
+    it("should reject manifests newer than the tool", () => {
+      const result = safeParseManifest({ ...manifest, version: MANIFEST_VERSION + 1 });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues).toEqual([
+        expect.objectContaining({ path: ["version"], message: expect.stringContaining("Upgrade coolify-deploy") }),
+      ]);
+    });
+  });
+
+  it("should accept a $schema reference", () => {
+    const manifest = parseManifest({
+      $schema: "./coolify.manifest.schema.json",
+      projectId: "project-uuid",
+      destinationId: "destination-uuid",
+      resources: [{ name: "app", dockerImageName: "ghcr.io/owner/app", envSecretName: "APP_ENV" }],
+    });
+    expect(manifest.projectId).toBe("project-uuid");
+  });
 });
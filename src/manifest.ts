@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { MANIFEST_VERSION, ManifestVersionError, migrateManifestData } from "./migrations";
 
 /**
  * Schema for health check configuration in a Coolify resource.
@@ -17,17 +18,251 @@ export const healthCheckSchema = z.object({
   startPeriod: z.number().default(0).optional().describe("Initial delay before starting health checks in seconds"),
 });
 
+const MEMORY_PATTERN = /^(\d+)([bkmg]?)$/i;
+
+const MEMORY_UNITS: Record<string, number> = { "": 1, b: 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+
+/**
+ * Converts a Docker memory size such as `512m` or `2g` to bytes.
+ */
+function parseMemorySize(value: string): number {
+  const match = MEMORY_PATTERN.exec(value);
+  return match ? Number(match[1]) * MEMORY_UNITS[match[2].toLowerCase()] : NaN;
+}
+
+const memorySizeSchema = z
+  .string()
+  .regex(MEMORY_PATTERN, "Memory must be a number with an optional b, k, m or g unit (e.g. '512m', '2g')")
+  .transform((val) => val.toLowerCase());
+
+/**
+ * Schema for container resource limits in a Coolify resource.
+ */
+export const limitsSchema = z
+  .object({
+    memory: memorySizeSchema.optional().describe("Hard memory limit, e.g. '512m' or '2g'"),
+    memorySwap: z
+      .union([z.literal("-1"), memorySizeSchema])
+      .optional()
+      .describe("Total memory plus swap limit, or '-1' for unlimited swap"),
+    memorySwappiness: z.number().int().min(0).max(100).optional().describe("Swappiness between 0 and 100"),
+    memoryReservation: memorySizeSchema.optional().describe("Soft memory limit, e.g. '256m'"),
+    cpus: z
+      .union([z.number().positive(), z.string().regex(/^\d+(\.\d+)?$/, "CPUs must be a number (e.g. '0.5', '2')")])
+      .transform(String)
+      .optional()
+      .describe("Number of CPUs the container can use, e.g. 0.5"),
+    cpuset: z
+      .string()
+      .regex(/^\d+(-\d+)?(,\d+(-\d+)?)*$/, "CPU set must be a list or range of CPU indexes (e.g. '0-3', '0,2')")
+      .optional()
+      .describe("CPUs the container is allowed to run on, e.g. '0-3'"),
+    cpuShares: z.number().int().positive().optional().describe("Relative CPU weight"),
+  })
+  .strict()
+  .superRefine((limits, ctx) => {
+    const memory = limits.memory === undefined ? undefined : parseMemorySize(limits.memory);
+    if (memory === undefined) {
+      return;
+    }
+    if (limits.memoryReservation !== undefined && parseMemorySize(limits.memoryReservation) > memory) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Memory reservation must not exceed the memory limit",
+        path: ["memoryReservation"],
+      });
+    }
+    if (limits.memorySwap !== undefined && limits.memorySwap !== "-1" && parseMemorySize(limits.memorySwap) < memory) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Memory swap must be at least the memory limit",
+        path: ["memorySwap"],
+      });
+    }
+  });
+
+/**
+ * Schema for a command run inside a container around a deployment.
+ */
+export const deploymentCommandSchema = z
+  .object({
+    command: z.string().min(1).describe("Command to run, e.g. 'php artisan migrate --force'"),
+    container: z.string().min(1).optional().describe("Container to run the command in, defaults to the application"),
+  })
+  .strict();
+
+/**
+ * Schema for deployment hooks in a Coolify resource.
+ */
+export const hooksSchema = z
+  .object({
+    preDeploy: deploymentCommandSchema.optional().describe("Command run before the new container starts"),
+    postDeploy: deploymentCommandSchema.optional().describe("Command run after the new container starts"),
+  })
+  .strict();
+
+/**
+ * Schema for HTTP basic auth in front of a Coolify resource.
+ * The password is read from a secret so it never appears in the manifest.
+ */
+export const basicAuthSchema = z
+  .object({
+    enabled: z.boolean().default(true).describe("Set to false to turn basic auth off"),
+    username: z.string().min(1).describe("Basic auth username"),
+    passwordSecretName: z.string().min(1).describe("Name of the secret holding the basic auth password"),
+  })
+  .strict();
+
+/**
+ * Schema for a persistent storage mounted into a resource's container.
+ * Storages are matched to the live ones by mount path.
+ */
+export const storageSchema = z
+  .object({
+    /** Docker volume name; for bind mounts it only labels the storage in Coolify */
+    name: z
+      .string()
+      .regex(/^[A-Za-z0-9][A-Za-z0-9_.-]*$/, "Volume names may only contain letters, digits, '_', '.' and '-'")
+      .describe("Volume name"),
+    mountPath: z.string().startsWith("/", "Mount path must be absolute").describe("Path inside the container"),
+    /** Directory on the server to bind mount; leave unset for a named Docker volume */
+    hostPath: z
+      .string()
+      .startsWith("/", "Host path must be absolute")
+      .optional()
+      .describe("Directory on the server to bind mount instead of a named volume"),
+  })
+  .strict();
+
+/**
+ * Schedule names Coolify accepts in place of a cron expression.
+ */
+const CRON_ALIASES = new Set([
+  "every_minute",
+  "hourly",
+  "daily",
+  "weekly",
+  "monthly",
+  "yearly",
+  "@hourly",
+  "@daily",
+  "@midnight",
+  "@weekly",
+  "@monthly",
+  "@yearly",
+  "@annually",
+]);
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+/**
+ * Ranges of the five cron fields: minute, hour, day of month, month and day of week.
+ * Months and weekdays may also be written as three-letter names.
+ */
+const CRON_FIELDS: { min: number; max: number; names?: string[] }[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12, names: MONTH_NAMES },
+  { min: 0, max: 7, names: DAY_NAMES },
+];
+
+/**
+ * Checks one comma-separated part of a cron field, such as `*`, `5`, `1-5`, `0-30/10` or `MON-FRI`.
+ */
+function isCronPart(part: string, field: (typeof CRON_FIELDS)[number]): boolean {
+  const [range, step, ...rest] = part.split("/");
+  if (rest.length > 0 || (step !== undefined && !(/^\d+$/.test(step) && Number(step) > 0))) {
+    return false;
+  }
+  if (range === "*") {
+    return true;
+  }
+  const toNumber = (value: string) => {
+    const named = field.names?.indexOf(value.toUpperCase()) ?? -1;
+    if (named !== -1) {
+      return named + field.min;
+    }
+    return /^\d+$/.test(value) ? Number(value) : NaN;
+  };
+  const bounds = range.split("-").map(toNumber);
+  if (bounds.length > 2 || bounds.some((n) => !(n >= field.min && n <= field.max))) {
+    return false;
+  }
+  return bounds.length === 1 || bounds[0] <= bounds[1];
+}
+
+/**
+ * Checks a five-field cron expression or one of the schedule names Coolify accepts.
+ */
+function isCronExpression(value: string): boolean {
+  const expression = value.trim();
+  if (CRON_ALIASES.has(expression.toLowerCase())) {
+    return true;
+  }
+  const fields = expression.split(/\s+/);
+  return (
+    fields.length === CRON_FIELDS.length &&
+    fields.every((field, index) => field.split(",").every((part) => isCronPart(part, CRON_FIELDS[index])))
+  );
+}
+
+/**
+ * Schema for a command Coolify runs in a resource's container on a schedule.
+ * Tasks are matched to the live ones by name.
+ */
+export const scheduledTaskSchema = z
+  .object({
+    name: z.string().min(1).describe("Task name in Coolify"),
+    command: z.string().min(1).describe("Command to run, e.g. 'php artisan cache:prune'"),
+    frequency: z
+      .string()
+      .refine(
+        isCronExpression,
+        "Frequency must be a five-field cron expression (e.g. '0 3 * * *') or one of hourly, daily, weekly, monthly, yearly",
+      )
+      .describe("Cron expression or schedule name, e.g. '0 3 * * *' or 'daily'"),
+    /** Container to run the command in; for compose resources this is the service name */
+    container: z.string().min(1).optional().describe("Container or compose service to run the command in"),
+  })
+  .strict();
+
+const PORT_MAPPING_PATTERN = /^(\d+):(\d+)$/;
+
+const isPort = (value: string) => Number(value) >= 1 && Number(value) <= 65535;
+
+const ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const LABEL_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._/-]*$/;
+
+/**
+ * Schema for the Coolify flags of a single environment variable. Unset flags use Coolify's defaults:
+ * literal, not shown once, not a preview variable, available at build time and at runtime.
+ */
+export const envVarFlagsSchema = z
+  .object({
+    shownOnce: z.boolean().optional().describe("Hide the value in the Coolify UI once it is saved"),
+    literal: z.boolean().optional().describe("Set to false to let Coolify interpolate references in the value"),
+    preview: z.boolean().optional().describe("Use the variable for preview deployments"),
+    buildTime: z.boolean().optional().describe("Make the variable available while building"),
+    runtime: z.boolean().optional().describe("Make the variable available to the running container"),
+  })
+  .strict()
+  .refine((flags) => flags.buildTime !== false || flags.runtime !== false, {
+    message: "A variable must be available at build time, at runtime or both",
+  });
+
 /**
- * Schema for a single resource/application definition in the manifest.
+ * Fields shared by every resource type.
  */
-export const resourceSchema = z
+const resourceBaseSchema = z
   .object({
     /** Unique name for this application in Coolify */
     name: z.string().min(1).describe("Application name in Coolify"),
     /** Human-readable description */
     description: z.string().default("").describe("Application description"),
-    /** Docker image name (without tag), e.g., "ghcr.io/owner/repo/service" */
-    dockerImageName: z.string().min(1).describe("Docker image name without tag"),
     /** Name of the GitHub secret containing the environment variables for this app */
     envSecretName: z.string().min(1).describe("Name of the GitHub secret for environment variables"),
     /** Domain(s) for the application, comma-separated if multiple */
@@ -56,15 +291,471 @@ export const resourceSchema = z
         },
       )
       .describe("Comma-separated list of ports to expose"),
+    /** Host to container port mappings, comma-separated if multiple */
+    portsMappings: z
+      .string()
+      .refine(
+        (val) =>
+          val
+            .split(",")
+            .map((p) => p.trim())
+            .filter((p) => p !== "")
+            .every((p) => {
+              const match = PORT_MAPPING_PATTERN.exec(p);
+              return match !== null && isPort(match[1]) && isPort(match[2]);
+            }),
+        {
+          message: "Port mappings must be comma-separated host:container pairs (e.g. '8080:80, 5432:5432')",
+        },
+      )
+      .optional()
+      .describe("Comma-separated list of host:container port mappings"),
+    /** Docker labels added to the container */
+    customLabels: z
+      .record(
+        z
+          .string()
+          .regex(/^[A-Za-z0-9][A-Za-z0-9._/-]*$/, "Label keys may only contain letters, digits, '.', '_', '/' and '-'"),
+        z.string().refine((val) => !val.includes("\n"), "Label values must be a single line"),
+      )
+      .optional()
+      .describe("Docker labels as key/value pairs"),
+    /** Extra `docker run` options, e.g. "--cap-add=NET_ADMIN" */
+    customDockerRunOptions: z.string().optional().describe("Additional docker run options"),
+    /** Extra network aliases for the container */
+    networkAliases: z
+      .array(z.string().regex(/^[A-Za-z0-9][A-Za-z0-9.-]*$/, "Network aliases must be valid hostnames"))
+      .optional()
+      .describe("Additional network aliases for the container"),
+    /** Connect the container to the predefined Docker network of the destination */
+    connectToDockerNetwork: z.boolean().optional().describe("Connect to the predefined Docker network"),
     /** Health check configuration */
     healthCheck: healthCheckSchema.optional().describe("Health check configuration for the application"),
+    /** Container resource limits */
+    limits: limitsSchema.optional().describe("CPU and memory limits for the application container"),
+    /** Number of swarm replicas; requires the target server to be a swarm manager */
+    replicas: z.number().int().min(1).optional().describe("Number of Docker Swarm replicas"),
+    /** Docker Swarm placement constraints, e.g. "node.role == worker" */
+    placementConstraints: z
+      .array(z.string().min(1))
+      .optional()
+      .describe("Docker Swarm placement constraints, e.g. 'node.role == worker'"),
+    /** Named volumes and bind mounts; live storages missing here are only deleted with `--prune-storage` */
+    storages: z
+      .array(storageSchema)
+      .refine(
+        (storages) => new Set(storages.map((s) => s.mountPath)).size === storages.length,
+        "Each storage must use a different mount path",
+      )
+      .optional()
+      .describe("Persistent storages mounted into the container"),
+    /** Scheduled commands; live tasks missing here are deleted once the list is declared */
+    scheduledTasks: z
+      .array(scheduledTaskSchema)
+      .refine(
+        (tasks) => new Set(tasks.map((t) => t.name)).size === tasks.length,
+        "Each scheduled task must have a different name",
+      )
+      .optional()
+      .describe("Commands run in the container on a cron schedule"),
+    /** HTTP basic auth in front of the application */
+    basicAuth: basicAuthSchema.optional().describe("HTTP basic auth with the password taken from a secret"),
+    /** Commands run around each deployment */
+    hooks: hooksSchema.optional().describe("Pre- and post-deployment commands"),
+    /** Coolify flags per env var name, overriding `# @...` annotations in the env file */
+    envFlags: z
+      .record(z.string().regex(ENV_KEY_PATTERN, "Env var names must be valid identifiers"), envVarFlagsSchema)
+      .optional()
+      .describe("Coolify flags per env var, e.g. { API_TOKEN: { shownOnce: true } }"),
+    /** Env vars set to the connection string of a database in the manifest, keyed by env var name */
+    databaseUrls: z
+      .record(z.string().regex(ENV_KEY_PATTERN, "Env var names must be valid identifiers"), z.string().min(1))
+      .optional()
+      .describe("Env vars set to the connection string of a manifest database, e.g. { DATABASE_URL: 'main-db' }"),
+    /** Resources whose deployments must finish successfully before this one is deployed */
+    dependsOn: z.array(z.string().min(1)).optional().describe("Names of resources to deploy first"),
+    /** Server UUID for this resource, overriding the manifest's `serverId` */
+    serverId: z.string().min(1).optional().describe("Coolify Server UUID for this resource"),
+    /** Destination UUID on the resource's server, overriding the manifest's `destinationId` */
+    destinationId: z.string().min(1).optional().describe("Coolify Destination UUID for this resource"),
+    /** Labels matched by `--selector`; they are not sent to Coolify (see `customLabels`) */
+    labels: z
+      .record(
+        z.string().regex(LABEL_PATTERN, "Label keys must be alphanumeric with '.', '_', '/' or '-'"),
+        z.string().regex(LABEL_PATTERN, "Label values must be alphanumeric with '.', '_', '/' or '-'"),
+      )
+      .optional()
+      .describe("Labels for selecting resources with --selector, e.g. { team: 'payments' }"),
+  })
+  .describe("Fields shared by every resource type");
+
+/**
+ * Schema for an application deployed from a prebuilt Docker image. This is the default resource type.
+ */
+export const dockerImageResourceSchema = resourceBaseSchema
+  .extend({
+    type: z.literal("dockerImage").optional().describe("Resource type, defaults to 'dockerImage'"),
+    /** Docker image name (without tag), e.g., "ghcr.io/owner/repo/service" */
+    dockerImageName: z.string().min(1).describe("Docker image name without tag"),
   })
   .strict();
 
 /**
- * Schema for the complete Coolify manifest file.
+ * Build packs Coolify can use to build a git resource.
+ */
+export const GIT_BUILD_PACKS = ["nixpacks", "static", "dockerfile"] as const;
+
+/**
+ * Schema for an application that Coolify builds from a git repository.
+ * Public repositories need no credentials; private ones use a GitHub App or a deploy key.
  */
-export const manifestSchema = z.object({
+export const gitResourceSchema = resourceBaseSchema
+  .extend({
+    type: z.literal("git").describe("Build the application from a git repository"),
+    /** Repository URL, e.g. "https://github.com/owner/repo" */
+    repository: z.string().min(1).describe("Git repository URL"),
+    branch: z.string().min(1).default("main").describe("Branch to build"),
+    buildPack: z.enum(GIT_BUILD_PACKS).default("nixpacks").describe("How Coolify builds the application"),
+    baseDirectory: z.string().optional().describe("Directory inside the repository to build from"),
+    publishDirectory: z.string().optional().describe("Directory with the built static files"),
+    installCommand: z.string().optional().describe("Custom install command"),
+    buildCommand: z.string().optional().describe("Custom build command"),
+    startCommand: z.string().optional().describe("Custom start command"),
+    /** UUID of the GitHub App with access to a private repository */
+    githubAppUuid: z.string().min(1).optional().describe("GitHub App UUID for private repositories"),
+    /** UUID of the Coolify private key registered as a deploy key */
+    privateKeyUuid: z.string().min(1).optional().describe("Private key UUID for deploy key access"),
+  })
+  .strict()
+  .refine((resource) => !(resource.githubAppUuid && resource.privateKeyUuid), {
+    message: "Use either githubAppUuid or privateKeyUuid, not both",
+    path: ["privateKeyUuid"],
+  });
+
+/**
+ * Schema for a Docker Compose application read from a local compose file.
+ * Ports, health checks and limits are declared in the compose file itself.
+ */
+export const composeResourceSchema = resourceBaseSchema
+  .pick({
+    name: true,
+    description: true,
+    envSecretName: true,
+    envFlags: true,
+    databaseUrls: true,
+    dependsOn: true,
+    labels: true,
+    scheduledTasks: true,
+    serverId: true,
+    destinationId: true,
+  })
+  .extend({
+    type: z.literal("compose").describe("Deploy a Docker Compose stack"),
+    /** Path to the compose file, relative to the manifest */
+    composeFile: z.string().min(1).describe("Path to the compose file, relative to the manifest"),
+    /** Domains per compose service, comma-separated if multiple */
+    serviceDomains: z
+      .record(z.string().min(1), z.string())
+      .optional()
+      .describe("Comma-separated domains for each compose service"),
+    startCommand: z.string().optional().describe("Custom 'docker compose up' command"),
+    buildCommand: z.string().optional().describe("Custom 'docker compose build' command"),
+  })
+  .strict();
+
+/**
+ * Schema for a single application resource, built from a Docker image or a git repository.
+ * Resources without a `type` are Docker image applications.
+ */
+export const resourceSchema = z.discriminatedUnion("type", [dockerImageResourceSchema, gitResourceSchema]);
+
+/**
+ * Schema for an entry in the manifest's `resources` list: an application or a compose stack.
+ */
+export const manifestResourceSchema = z.discriminatedUnion("type", [
+  dockerImageResourceSchema,
+  gitResourceSchema,
+  composeResourceSchema,
+]);
+
+/**
+ * Database engines that can be declared in the manifest.
+ */
+export const DATABASE_TYPES = ["postgresql", "mysql", "redis"] as const;
+
+/**
+ * Fields shared by every database type.
+ */
+const databaseBaseSchema = z.object({
+  /** Unique name for this database in Coolify */
+  name: z.string().min(1).describe("Database name in Coolify"),
+  description: z.string().default("").describe("Database description"),
+  /** Docker image including the version tag, e.g. "postgres:16-alpine" */
+  image: z.string().min(1).optional().describe("Docker image and version, defaults to Coolify's image"),
+  /** Port on the server that exposes the database publicly */
+  publicPort: z.number().int().min(1).max(65535).optional().describe("Public port, leave unset to keep private"),
+  limits: limitsSchema.optional().describe("CPU and memory limits for the database container"),
+  /** Name of the secret holding the database password */
+  passwordSecretName: z.string().min(1).describe("Name of the secret holding the database password"),
+});
+
+/**
+ * Schema for a managed database. Credentials are only sent when the database is created.
+ */
+export const databaseSchema = z.discriminatedUnion("type", [
+  databaseBaseSchema
+    .extend({
+      type: z.literal("postgresql"),
+      username: z.string().min(1).default("postgres").describe("Database user"),
+      databaseName: z.string().min(1).default("postgres").describe("Initial database"),
+    })
+    .strict(),
+  databaseBaseSchema
+    .extend({
+      type: z.literal("mysql"),
+      username: z.string().min(1).default("mysql").describe("Database user"),
+      databaseName: z.string().min(1).default("default").describe("Initial database"),
+      /** Name of the secret holding the root password, generated by Coolify when unset */
+      rootPasswordSecretName: z.string().min(1).optional().describe("Name of the secret holding the root password"),
+    })
+    .strict(),
+  databaseBaseSchema.extend({ type: z.literal("redis") }).strict(),
+]);
+
+/**
+ * Fields accepted by each resource type, so defaults are only applied where they fit.
+ */
+const RESOURCE_TYPE_FIELDS: Record<string, Set<string>> = {
+  dockerImage: new Set(Object.keys(dockerImageResourceSchema.shape)),
+  git: new Set(Object.keys(gitResourceSchema.shape)),
+  compose: new Set(Object.keys(composeResourceSchema.shape)),
+};
+
+/**
+ * Schema for the manifest-level `defaults` block.
+ * Accepts any resource field except `name` and `type`, with a partial health check.
+ * Fields only apply to resources whose type accepts them.
+ */
+export const resourceDefaultsSchema = resourceBaseSchema
+  .extend({
+    ...dockerImageResourceSchema.shape,
+    ...gitResourceSchema.shape,
+    ...composeResourceSchema.shape,
+    healthCheck: healthCheckSchema
+      .partial()
+      .optional()
+      .describe("Health check defaults for resources with a health check"),
+  })
+  .omit({ name: true, type: true })
+  .strict()
+  .partial();
+
+const RESOURCE_NAME_PLACEHOLDER = /\{name\}/g;
+
+/**
+ * Object-valued defaults that only apply to resources declaring the same object.
+ */
+const DECLARED_ONLY_DEFAULTS = new Set(["healthCheck"]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep-merges `override` into `base`. Plain objects are merged key by key, everything else is replaced.
+ */
+function deepMerge(base: unknown, override: unknown): unknown {
+  if (isPlainObject(base) && isPlainObject(override)) {
+    const result: Record<string, unknown> = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+      result[key] = deepMerge(base[key], value);
+    }
+    return result;
+  }
+  return override === undefined ? base : override;
+}
+
+/**
+ * Replaces `{name}` in every string of a defaults value with the resource name.
+ */
+function substituteResourceName(value: unknown, name: string): unknown {
+  if (typeof value === "string") {
+    return value.replace(RESOURCE_NAME_PLACEHOLDER, name);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => substituteResourceName(item, name));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, substituteResourceName(v, name)]));
+  }
+  return value;
+}
+
+/**
+ * Merges a raw `defaults` block into a raw resource. Values set on the resource win.
+ * Defaults for `healthCheck` only apply to resources that declare a health check,
+ * and fields only apply to resource types that accept them.
+ */
+export function applyResourceDefaults(defaults: Record<string, unknown>, resource: unknown): unknown {
+  if (!isPlainObject(resource)) {
+    return resource;
+  }
+
+  const name = typeof resource.name === "string" ? resource.name : "";
+  const type = typeof resource.type === "string" ? resource.type : "dockerImage";
+  const resolved = substituteResourceName(defaults, name) as Record<string, unknown>;
+  const applicable = Object.fromEntries(
+    Object.entries(resolved).filter(
+      ([key]) =>
+        (!DECLARED_ONLY_DEFAULTS.has(key) || resource[key] !== undefined) &&
+        (RESOURCE_TYPE_FIELDS[type]?.has(key) ?? true),
+    ),
+  );
+
+  return deepMerge(applicable, resource);
+}
+
+/**
+ * Applies the manifest's `defaults` block to every raw resource before validation.
+ */
+function applyManifestDefaults(data: unknown): unknown {
+  if (!isPlainObject(data) || !isPlainObject(data.defaults) || !Array.isArray(data.resources)) {
+    return data;
+  }
+  const defaults = data.defaults;
+  return { ...data, resources: data.resources.map((resource) => applyResourceDefaults(defaults, resource)) };
+}
+
+/**
+ * Overlays a raw environment entry onto a raw manifest.
+ * The environment key is used as the Coolify environment name unless the entry sets `environmentName`.
+ */
+export function applyEnvironmentOverlay(
+  data: Record<string, unknown>,
+  environment: string,
+  overlay: Record<string, unknown>,
+): Record<string, unknown> {
+  const { defaults, resources: resourceOverlays, ...fields } = overlay;
+  const resources = Array.isArray(data.resources) ? data.resources : [];
+
+  return {
+    ...data,
+    environmentName: environment,
+    ...fields,
+    defaults: deepMerge(data.defaults, defaults),
+    resources: resources.map((resource) => {
+      const name = isPlainObject(resource) ? resource.name : undefined;
+      const resourceOverlay =
+        isPlainObject(resourceOverlays) && typeof name === "string" ? resourceOverlays[name] : undefined;
+      return deepMerge(resource, resourceOverlay);
+    }),
+  };
+}
+
+/**
+ * Options for parsing a manifest.
+ */
+export interface ParseManifestOptions {
+  /** Name of the entry in `environments` to resolve the manifest for */
+  environment?: string;
+}
+
+/**
+ * Migrates a raw manifest to the current version, resolves the selected environment and applies defaults
+ * before validation.
+ */
+function preprocessManifest(input: unknown, ctx: z.core.ParsePayload, environment?: string): unknown {
+  let data: unknown;
+  try {
+    data = migrateManifestData(input);
+  } catch (error) {
+    if (!(error instanceof ManifestVersionError)) {
+      throw error;
+    }
+    ctx.issues.push({ code: "custom", message: error.message, path: ["version"], input });
+    return input;
+  }
+
+  if (environment === undefined || !isPlainObject(data)) {
+    return applyManifestDefaults(data);
+  }
+
+  const overlay = isPlainObject(data.environments) ? data.environments[environment] : undefined;
+  if (isPlainObject(overlay)) {
+    return applyManifestDefaults(applyEnvironmentOverlay(data, environment, overlay));
+  }
+
+  // Selecting the base environment by name needs no overlay
+  const baseEnvironmentName = data.environmentName ?? "production";
+  if (overlay === undefined && environment === baseEnvironmentName) {
+    return applyManifestDefaults(data);
+  }
+
+  ctx.issues.push({
+    code: "custom",
+    message: `Unknown environment "${environment}"`,
+    path: ["environments"],
+    input: data.environments,
+  });
+  return data;
+}
+
+/**
+ * Schema for a single entry in the manifest's `environments` map.
+ */
+export const environmentOverlaySchema = z
+  .object({
+    /** Coolify environment name, defaults to the key in `environments` */
+    environmentName: z.string().min(1).optional().describe("Coolify environment name"),
+    /** Coolify Destination UUID for this environment */
+    destinationId: z.string().min(1).optional().describe("Coolify Destination UUID"),
+    /** Server UUID for this environment */
+    serverId: z.string().min(1).optional().describe("Coolify Server ID"),
+    /** Name of the GitHub secret containing the .env file for this environment */
+    envFileSecretName: z.string().min(1).optional(),
+    /** Defaults merged over the manifest-level defaults */
+    defaults: resourceDefaultsSchema.optional().describe("Default values merged over the manifest defaults"),
+    /** Per-resource overrides, keyed by resource name */
+    resources: z
+      .record(z.string(), resourceDefaultsSchema)
+      .optional()
+      .describe("Per-resource field overrides keyed by resource name"),
+  })
+  .strict();
+
+/**
+ * Ids of the semantic lint rules run on parsed manifests.
+ */
+export const LINT_RULE_IDS = [
+  "duplicate-resource-name",
+  "duplicate-domain",
+  "health-check-port-not-exposed",
+  "duplicate-env-secret",
+  "domain-missing-scheme",
+  "privileged-port",
+] as const;
+
+/**
+ * Schema for the manifest's lint configuration.
+ */
+export const lintConfigSchema = z
+  .object({
+    /** Severity per rule id; "off" disables the rule */
+    rules: z
+      .partialRecord(z.enum(LINT_RULE_IDS), z.enum(["error", "warning", "off"]))
+      .optional()
+      .describe("Severity per lint rule id, or 'off' to disable the rule"),
+  })
+  .strict();
+
+/**
+ * Schema for the manifest fields, validated after defaults are applied.
+ */
+const manifestObjectSchema = z.object({
+  /** JSON Schema reference for editors, ignored by the tool */
+  $schema: z.string().optional().describe("JSON Schema used by editors for completion"),
+  /** Manifest format version, upgraded with `cdeploy migrate` */
+  version: z.literal(MANIFEST_VERSION).optional().describe("Manifest format version"),
   /** Coolify Project UUID */
   projectId: z.string().min(1).describe("Coolify Project UUID"),
   /** Coolify Destination UUID (Docker Engine) */
@@ -75,25 +766,255 @@ export const manifestSchema = z.object({
   envFileSecretName: z.string().min(1).default("PRODUCTION_ENV_FILE"),
   /** Server UUID for Coolify */
   serverId: z.string().min(1).optional().describe("Coolify Server ID"),
+  /** Values inherited by every resource; `{name}` in strings is replaced with the resource name */
+  defaults: resourceDefaultsSchema.optional().describe("Default values deep-merged into every resource"),
   /** Array of resource definitions */
-  resources: z.array(resourceSchema).min(1, "At least one resource must be defined"),
+  resources: z.array(manifestResourceSchema).min(1, "At least one resource must be defined"),
+  /** Managed databases; when set, databases missing from the list are pruned */
+  databases: z.array(databaseSchema).optional().describe("Databases managed alongside the resources"),
+  /** Named environments overriding manifest and resource fields, selected with `--environment` */
+  environments: z
+    .record(z.string(), environmentOverlaySchema)
+    .optional()
+    .describe("Per-environment overrides selected with --environment"),
+  /** Severity overrides for the semantic lint rules */
+  lint: lintConfigSchema.optional().describe("Lint rule configuration"),
 });
 
+/**
+ * Checks that environment overlays only reference resources defined in the manifest.
+ */
+function validateEnvironmentOverlays(
+  manifest: z.infer<typeof manifestObjectSchema>,
+  ctx: z.core.$RefinementCtx<z.infer<typeof manifestObjectSchema>>,
+) {
+  const resourceNames = new Set(manifest.resources.map((r) => r.name));
+  for (const [environment, overlay] of Object.entries(manifest.environments ?? {})) {
+    for (const name of Object.keys(overlay.resources ?? {})) {
+      if (!resourceNames.has(name)) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Unknown resource "${name}"`,
+          path: ["environments", environment, "resources", name],
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Checks that resource and database names are unique and that `databaseUrls` only reference declared databases.
+ */
+function validateDatabases(
+  manifest: z.infer<typeof manifestObjectSchema>,
+  ctx: z.core.$RefinementCtx<z.infer<typeof manifestObjectSchema>>,
+) {
+  const databaseNames = new Set<string>();
+  const resourceNames = new Set(manifest.resources.map((r) => r.name));
+  (manifest.databases ?? []).forEach((database, index) => {
+    if (databaseNames.has(database.name) || resourceNames.has(database.name)) {
+      ctx.addIssue({
+        code: "custom",
+        message: `Duplicate name "${database.name}"`,
+        path: ["databases", index, "name"],
+      });
+    }
+    databaseNames.add(database.name);
+  });
+
+  manifest.resources.forEach((resource, index) => {
+    for (const [key, name] of Object.entries(resource.databaseUrls ?? {})) {
+      if (!databaseNames.has(name)) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Unknown database "${name}"`,
+          path: ["resources", index, "databaseUrls", key],
+        });
+      }
+    }
+  });
+}
+
+/**
+ * Finds a cycle in the `dependsOn` graph of the resources, returned as the names along the cycle.
+ */
+function findDependencyCycle(resources: { name: string; dependsOn?: string[] }[]): string[] | undefined {
+  const dependencies = new Map(resources.map((r) => [r.name, r.dependsOn ?? []]));
+  const visited = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (name: string): string[] | undefined => {
+    if (stack.includes(name)) {
+      return [...stack.slice(stack.indexOf(name)), name];
+    }
+    if (visited.has(name)) {
+      return undefined;
+    }
+    stack.push(name);
+    for (const dependency of dependencies.get(name) ?? []) {
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    visited.add(name);
+    return undefined;
+  };
+
+  for (const name of dependencies.keys()) {
+    const cycle = visit(name);
+    if (cycle) return cycle;
+  }
+  return undefined;
+}
+
+/**
+ * Checks that `dependsOn` only references resources in the manifest and contains no cycles.
+ */
+function validateDependencies(
+  manifest: z.infer<typeof manifestObjectSchema>,
+  ctx: z.core.$RefinementCtx<z.infer<typeof manifestObjectSchema>>,
+) {
+  const resourceNames = manifest.resources.map((r) => r.name);
+  manifest.resources.forEach((resource, index) => {
+    resource.dependsOn?.forEach((name, dependencyIndex) => {
+      if (!resourceNames.includes(name)) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Unknown resource "${name}"`,
+          path: ["resources", index, "dependsOn", dependencyIndex],
+        });
+      }
+    });
+  });
+
+  const cycle = findDependencyCycle(manifest.resources);
+  if (cycle) {
+    ctx.addIssue({
+      code: "custom",
+      message: `Dependency cycle: ${cycle.join(" -> ")}`,
+      path: ["resources", resourceNames.indexOf(cycle[0]), "dependsOn"],
+    });
+  }
+}
+
+/**
+ * Orders resources so every resource comes after the resources it depends on.
+ * Resources keep their manifest order where dependencies allow it.
+ */
+export function orderByDependencies<T extends { name: string; dependsOn?: string[] }>(resources: T[]): T[] {
+  const byName = new Map(resources.map((r) => [r.name, r]));
+  const seen = new Set<string>();
+  const ordered: T[] = [];
+
+  const visit = (resource: T) => {
+    if (seen.has(resource.name)) {
+      return;
+    }
+    seen.add(resource.name);
+    for (const name of resource.dependsOn ?? []) {
+      const dependency = byName.get(name);
+      if (dependency) visit(dependency);
+    }
+    ordered.push(resource);
+  };
+
+  resources.forEach(visit);
+  return ordered;
+}
+
+/**
+ * Creates the manifest schema, optionally resolving one of the manifest's environments.
+ */
+export function createManifestSchema(environment?: string) {
+  return z.preprocess(
+    (data, ctx) => preprocessManifest(data, ctx, environment),
+    manifestObjectSchema
+      .superRefine(validateEnvironmentOverlays)
+      .superRefine(validateDatabases)
+      .superRefine(validateDependencies),
+  );
+}
+
+/**
+ * Schema for the complete Coolify manifest file.
+ */
+export const manifestSchema = createManifestSchema();
+
+/**
+ * Resource schemas whose required fields other than `name` and `type` may come from `defaults`.
+ */
+const DEFAULTABLE_RESOURCE_SCHEMAS = new Set<unknown>([
+  dockerImageResourceSchema,
+  gitResourceSchema,
+  composeResourceSchema,
+]);
+
+/**
+ * Generates a JSON Schema for manifest files from the Zod definitions.
+ * It describes the manifest as written, so fields with defaults are optional and resources
+ * only require `name` and `type` because `defaults` may provide the rest.
+ */
+export function createManifestJsonSchema(): Record<string, unknown> {
+  return z.toJSONSchema(manifestSchema, {
+    io: "input",
+    override: (ctx) => {
+      if (DEFAULTABLE_RESOURCE_SCHEMAS.has(ctx.zodSchema) && ctx.jsonSchema.required) {
+        ctx.jsonSchema.required = ctx.jsonSchema.required.filter((key) => key === "name" || key === "type");
+      }
+    },
+  });
+}
+
 export type HealthCheck = z.infer<typeof healthCheckSchema>;
+export type Limits = z.infer<typeof limitsSchema>;
+export type BasicAuth = z.infer<typeof basicAuthSchema>;
+export type DeploymentCommand = z.infer<typeof deploymentCommandSchema>;
+export type Hooks = z.infer<typeof hooksSchema>;
+export type Storage = z.infer<typeof storageSchema>;
+export type EnvVarFlags = z.infer<typeof envVarFlagsSchema>;
+export type ScheduledTask = z.infer<typeof scheduledTaskSchema>;
 export type Resource = z.infer<typeof resourceSchema>;
+export type DockerImageResource = z.infer<typeof dockerImageResourceSchema>;
+export type GitResource = z.infer<typeof gitResourceSchema>;
+export type ComposeResource = z.infer<typeof composeResourceSchema>;
+export type ManifestResource = z.infer<typeof manifestResourceSchema>;
+export type Database = z.infer<typeof databaseSchema>;
+export type ResourceDefaults = z.infer<typeof resourceDefaultsSchema>;
+export type EnvironmentOverlay = z.infer<typeof environmentOverlaySchema>;
+export type LintRuleId = (typeof LINT_RULE_IDS)[number];
+export type LintConfig = z.infer<typeof lintConfigSchema>;
 export type Manifest = z.infer<typeof manifestSchema>;
 
 /**
  * Parses and validates a manifest object.
  * @throws {z.ZodError} if validation fails
  */
-export function parseManifest(data: unknown): Manifest {
-  return manifestSchema.parse(data);
+export function parseManifest(data: unknown, options: ParseManifestOptions = {}): Manifest {
+  return createManifestSchema(options.environment).parse(data);
 }
 
 /**
  * Safely parses a manifest, returning success/error result.
  */
-export function safeParseManifest(data: unknown) {
-  return manifestSchema.safeParse(data);
+export function safeParseManifest(data: unknown, options: ParseManifestOptions = {}) {
+  return createManifestSchema(options.environment).safeParse(data);
+}
+
+/**
+ * Lists the secret names a manifest reads values from, other than the `COOLIFY_ENV_*` env files.
+ */
+export function listSecretReferences(manifest: Manifest): string[] {
+  const names = new Set<string>();
+  for (const resource of manifest.resources) {
+    if (resource.type !== "compose" && resource.basicAuth?.enabled) {
+      names.add(resource.basicAuth.passwordSecretName);
+    }
+  }
+  for (const database of manifest.databases ?? []) {
+    names.add(database.passwordSecretName);
+    if (database.type === "mysql" && database.rootPasswordSecretName) {
+      names.add(database.rootPasswordSecretName);
+    }
+  }
+  return [...names];
 }
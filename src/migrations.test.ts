@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyManifestEdits,
+  describeEdit,
+  MANIFEST_VERSION,
+  ManifestVersionError,
+  migrateManifestData,
+  planManifestMigration,
+  type ManifestMigration,
+} from "./migrations";
+
+// A hypothetical version 2 that renames `envSecretName` on every resource
+const renameEnvSecret: ManifestMigration = {
+  from: 1,
+  edits: (data) =>
+    (data.resources as unknown[]).map((_, index) => ({
+      op: "rename" as const,
+      path: ["resources", index, "envSecretName"],
+      to: "envSecret",
+    })),
+};
+
+const yamlManifest = `$schema: ./coolify.manifest.schema.json
+# Shared project settings
+projectId: project-uuid
+resources:
+  - name: api
+    # Loaded from GitHub secrets
+    envSecretName: COOLIFY_ENV_API
+    portsExposes: "3000"
+`;
+
+const json5Manifest = `{
+  // Shared project settings
+  projectId: "project-uuid",
+  resources: [
+    {
+      name: "api",
+      envSecretName: "COOLIFY_ENV_API", // loaded from GitHub secrets
+      portsExposes: "3000",
+    },
+  ],
+}
+`;
+
+describe("planManifestMigration", () => {
+  it("should set the version of an unversioned manifest after $schema", () => {
+    const plan = planManifestMigration({ $schema: "./schema.json", projectId: "project-uuid" });
+    expect(plan).toEqual({
+      fromVersion: 1,
+      toVersion: MANIFEST_VERSION,
+      edits: [{ op: "set", path: ["version"], value: MANIFEST_VERSION, index: 1 }],
+    });
+  });
+
+  it("should return no edits for a current manifest", () => {
+    expect(planManifestMigration({ version: MANIFEST_VERSION }).edits).toEqual([]);
+  });
+
+  it("should reject manifests newer than the tool", () => {
+    expect(() => planManifestMigration({ version: MANIFEST_VERSION + 1 })).toThrow(ManifestVersionError);
+  });
+
+  it("should reject invalid versions", () => {
+    expect(() => planManifestMigration({ version: "1" })).toThrow('Invalid manifest version "1"');
+  });
+
+  it("should chain migrations from the manifest version", () => {
+    const plan = planManifestMigration({ version: 1, resources: [{}, {}] }, [renameEnvSecret]);
+    expect(plan.toVersion).toBe(2);
+    expect(plan.edits.map(describeEdit)).toEqual([
+      "renamed resources.0.envSecretName to envSecret",
+      "renamed resources.1.envSecretName to envSecret",
+      "set version to 2",
+    ]);
+  });
+});
+
+describe("migrateManifestData", () => {
+  it("should migrate data while keeping key order", () => {
+    const migrated = migrateManifestData(
+      { projectId: "project-uuid", resources: [{ name: "api", envSecretName: "API", portsExposes: "3000" }] },
+      [renameEnvSecret],
+    );
+    expect(JSON.stringify(migrated)).toBe(
+      '{"version":2,"projectId":"project-uuid","resources":[{"name":"api","envSecret":"API","portsExposes":"3000"}]}',
+    );
+  });
+
+  it("should return non-object data as is", () => {
+    expect(migrateManifestData("manifest")).toBe("manifest");
+  });
+});
+
+describe("applyManifestEdits", () => {
+  it("should rewrite YAML keeping comments and key order", () => {
+    const { edits } = planManifestMigration({ $schema: "x", resources: [{}] }, [renameEnvSecret]);
+    const output = applyManifestEdits(yamlManifest, "yaml", edits);
+
+    expect(output).toBe(`$schema: ./coolify.manifest.schema.json
+version: 2
+# Shared project settings
+projectId: project-uuid
+resources:
+  - name: api
+    # Loaded from GitHub secrets
+    envSecret: COOLIFY_ENV_API
+    portsExposes: "3000"
+`);
+  });
+
+  it("should rewrite JSON5 keeping comments and key style", () => {
+    const { edits } = planManifestMigration({ resources: [{}] }, [renameEnvSecret]);
+    const output = applyManifestEdits(json5Manifest, "json5", edits);
+
+    expect(output).toBe(`{
+  version: 2,
+  // Shared project settings
+  projectId: "project-uuid",
+  resources: [
+    {
+      name: "api",
+      envSecret: "COOLIFY_ENV_API", // loaded from GitHub secrets
+      portsExposes: "3000",
+    },
+  ],
+}
+`);
+  });
+
+  it("should keep a trailing comment on the line of the previous key", () => {
+    const content = `{\n  projectId: "project-uuid", // shared\n  resources: [],\n}\n`;
+    const output = applyManifestEdits(content, "json5", [{ op: "set", path: ["serverId"], value: "server", index: 1 }]);
+    expect(output).toBe(`{\n  projectId: "project-uuid", // shared\n  serverId: "server",\n  resources: [],\n}\n`);
+  });
+
+  it("should insert the version below a YAML file header comment", () => {
+    const content = "# Production manifest\n# Owned by the platform team\nprojectId: project-uuid\nresources: []\n";
+    const { edits } = planManifestMigration({ projectId: "project-uuid", resources: [] });
+    expect(applyManifestEdits(content, "yaml", edits)).toBe(
+      `# Production manifest\n# Owned by the platform team\nversion: ${MANIFEST_VERSION}\nprojectId: project-uuid\nresources: []\n`,
+    );
+  });
+
+  it("should keep compact JSON on one line", () => {
+    const { edits } = planManifestMigration({ projectId: "project-uuid", resources: [] });
+    expect(applyManifestEdits('{"projectId":"project-uuid","resources":[]}', "json", edits)).toBe(
+      `{"version":${MANIFEST_VERSION},"projectId":"project-uuid","resources":[]}`,
+    );
+    expect(
+      applyManifestEdits('{ "projectId": "project-uuid" }', "json", [
+        { op: "set", path: ["serverId"], value: "server" },
+      ]),
+    ).toBe('{ "projectId": "project-uuid", "serverId": "server" }');
+  });
+
+  it("should set, replace and delete keys in JSON", () => {
+    const content = '{\n  "projectId": "project-uuid",\n  "version": 1,\n  "legacy": true\n}\n';
+    const output = applyManifestEdits(content, "json", [
+      { op: "set", path: ["version"], value: 2 },
+      { op: "delete", path: ["legacy"] },
+      { op: "set", path: ["serverId"], value: "server-uuid" },
+    ]);
+    expect(output).toBe('{\n  "projectId": "project-uuid",\n  "version": 2,\n  "serverId": "server-uuid"\n}\n');
+  });
+});
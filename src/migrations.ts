@@ -0,0 +1,340 @@
+import { parse as parseJson, type MemberNode, type ObjectNode, type Token, type ValueNode } from "@humanwhocodes/momoa";
+import { isMap, isScalar, parseDocument, type Node as YamlNode } from "yaml";
+import type { ManifestFormat } from "./loader";
+
+/**
+ * A single change to a raw manifest document. Paths address keys and array indexes from the root.
+ */
+export type ManifestEdit =
+  /** Sets a value; a new key is inserted at `index` among its siblings, or last */
+  | { op: "set"; path: PropertyKey[]; value: unknown; index?: number }
+  | { op: "rename"; path: PropertyKey[]; to: string }
+  | { op: "delete"; path: PropertyKey[] };
+
+/**
+ * Upgrades a raw manifest from one format version to the next.
+ */
+export interface ManifestMigration {
+  /** Version the migration upgrades from; it produces `from + 1` */
+  from: number;
+  /** Lists the edits that upgrade the manifest, given its data at version `from` */
+  edits(data: Record<string, unknown>): ManifestEdit[];
+}
+
+/**
+ * Edits needed to bring a raw manifest to the current version.
+ */
+export interface ManifestMigrationPlan {
+  fromVersion: number;
+  toVersion: number;
+  edits: ManifestEdit[];
+}
+
+/**
+ * Migrations between manifest versions, in order. Add one whenever a field is renamed, moved or removed
+ * so manifests written for older versions keep loading and `cdeploy migrate` can rewrite them.
+ */
+export const MANIFEST_MIGRATIONS: readonly ManifestMigration[] = [];
+
+/**
+ * Returns the version produced by the last migration.
+ */
+function latestVersion(migrations: readonly ManifestMigration[]): number {
+  return migrations.reduce((version, migration) => Math.max(version, migration.from + 1), 1);
+}
+
+/**
+ * Current manifest format version. Manifests without `version` predate versioning and are read as version 1.
+ */
+export const MANIFEST_VERSION = latestVersion(MANIFEST_MIGRATIONS);
+
+/**
+ * Error thrown when a manifest cannot be migrated to the current version.
+ */
+export class ManifestVersionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ManifestVersionError";
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Applies an edit to plain data in place, keeping the position of existing keys.
+ */
+function applyEdit(data: Record<string, unknown>, edit: ManifestEdit): void {
+  const key = String(edit.path[edit.path.length - 1]);
+  let parent: unknown = data;
+  for (const segment of edit.path.slice(0, -1)) {
+    parent =
+      isPlainObject(parent) || Array.isArray(parent) ? (parent as Record<string, unknown>)[String(segment)] : undefined;
+  }
+  if (!isPlainObject(parent)) {
+    return;
+  }
+
+  const entries = Object.entries(parent);
+  const position = entries.findIndex(([name]) => name === key);
+  if (edit.op === "set") {
+    if (position !== -1) {
+      entries[position] = [key, edit.value];
+    } else {
+      entries.splice(edit.index ?? entries.length, 0, [key, edit.value]);
+    }
+  } else if (position !== -1 && edit.op === "rename") {
+    entries[position] = [edit.to, entries[position][1]];
+  } else if (position !== -1) {
+    entries.splice(position, 1);
+  }
+
+  for (const name of Object.keys(parent)) {
+    delete parent[name];
+  }
+  Object.assign(parent, Object.fromEntries(entries));
+}
+
+/**
+ * Lists the edits that bring raw manifest data to the current version, including setting `version`.
+ * @throws {ManifestVersionError} if the manifest is newer than this tool or has an invalid version
+ */
+export function planManifestMigration(
+  data: Record<string, unknown>,
+  migrations: readonly ManifestMigration[] = MANIFEST_MIGRATIONS,
+): ManifestMigrationPlan {
+  const toVersion = latestVersion(migrations);
+  const fromVersion = data.version ?? 1;
+  if (typeof fromVersion !== "number" || !Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new ManifestVersionError(`Invalid manifest version ${JSON.stringify(fromVersion)}`);
+  }
+  if (fromVersion > toVersion) {
+    throw new ManifestVersionError(
+      `Manifest version ${fromVersion} is newer than the supported version ${toVersion}. Upgrade coolify-deploy.`,
+    );
+  }
+
+  const current = structuredClone(data);
+  const edits: ManifestEdit[] = [];
+  for (let version = fromVersion; version < toVersion; version++) {
+    const migration = migrations.find((m) => m.from === version);
+    if (!migration) {
+      throw new ManifestVersionError(`No migration from manifest version ${version}`);
+    }
+    for (const edit of migration.edits(current)) {
+      applyEdit(current, edit);
+      edits.push(edit);
+    }
+  }
+
+  if (data.version !== toVersion) {
+    // Keep `version` at the top of the file, after a `$schema` reference
+    edits.push({ op: "set", path: ["version"], value: toVersion, index: Object.keys(current).indexOf("$schema") + 1 });
+  }
+
+  return { fromVersion, toVersion, edits };
+}
+
+/**
+ * Brings raw manifest data to the current version. Data that is not an object is returned as is.
+ * @throws {ManifestVersionError} if the manifest is newer than this tool or has an invalid version
+ */
+export function migrateManifestData(
+  data: unknown,
+  migrations: readonly ManifestMigration[] = MANIFEST_MIGRATIONS,
+): unknown {
+  if (!isPlainObject(data)) {
+    return data;
+  }
+  const { edits } = planManifestMigration(data, migrations);
+  const migrated = structuredClone(data);
+  for (const edit of edits) {
+    applyEdit(migrated, edit);
+  }
+  return migrated;
+}
+
+/**
+ * Describes an edit for the `migrate` command output.
+ */
+export function describeEdit(edit: ManifestEdit): string {
+  const path = edit.path.map(String).join(".");
+  switch (edit.op) {
+    case "set":
+      return `set ${path} to ${JSON.stringify(edit.value)}`;
+    case "rename":
+      return `renamed ${path} to ${edit.to}`;
+    case "delete":
+      return `removed ${path}`;
+  }
+}
+
+function applyYamlEdits(content: string, edits: ManifestEdit[]): string {
+  const doc = parseDocument(content);
+
+  for (const edit of edits) {
+    const parentPath = edit.path.slice(0, -1);
+    const key = String(edit.path[edit.path.length - 1]);
+    const parent = (parentPath.length === 0 ? doc.contents : doc.getIn(parentPath, true)) as YamlNode | null;
+    if (!isMap(parent)) {
+      continue;
+    }
+    const position = parent.items.findIndex((item) => isScalar(item.key) && String(item.key.value) === key);
+
+    if (edit.op === "set") {
+      if (position !== -1) {
+        parent.items[position].value = doc.createNode(edit.value);
+      } else {
+        const index = edit.index ?? parent.items.length;
+        const pair = doc.createPair(key, edit.value);
+        const first = parent.items[0];
+        // A comment above the first key of the file is a file header, keep it at the top
+        if (index === 0 && parentPath.length === 0 && isScalar(first?.key) && first.key.commentBefore) {
+          (pair.key as YamlNode).commentBefore = first.key.commentBefore;
+          first.key.commentBefore = undefined;
+        }
+        parent.items.splice(index, 0, pair);
+      }
+    } else if (position !== -1) {
+      const pair = parent.items[position];
+      if (edit.op === "delete") {
+        parent.items.splice(position, 1);
+      } else if (isScalar(pair.key)) {
+        // Update the key in place so comments attached to it are kept
+        pair.key.value = edit.to;
+      }
+    }
+  }
+
+  return doc.toString();
+}
+
+function findJsonNode(root: ValueNode, path: PropertyKey[]): ValueNode | undefined {
+  let node: ValueNode | undefined = root;
+  for (const segment of path) {
+    if (node?.type === "Object") {
+      node = node.members.find((m) => memberKey(m) === String(segment))?.value;
+    } else if (node?.type === "Array" && typeof segment === "number") {
+      node = node.elements[segment]?.value;
+    } else {
+      return undefined;
+    }
+  }
+  return node;
+}
+
+function memberKey(member: MemberNode): string {
+  return member.name.type === "String" ? member.name.value : member.name.name;
+}
+
+/**
+ * Formats a key like the existing keys of the object: bare identifiers in JSON5 when the object uses them.
+ */
+function formatJsonKey(key: string, parent: ObjectNode, format: "json" | "json5"): string {
+  const bare = format === "json5" && parent.members[0]?.name.type === "Identifier";
+  return bare && /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Formats a new member like the existing members of the object, with the same spacing around `:`.
+ */
+function formatJsonMember(
+  key: string,
+  value: unknown,
+  parent: ObjectNode,
+  content: string,
+  format: "json" | "json5",
+): string {
+  const sample = parent.members[0];
+  const colon = sample ? content.slice(sample.name.loc.end.offset, sample.value.loc.start.offset) : ": ";
+  return `${formatJsonKey(key, parent, format)}${colon}${JSON.stringify(value)}`;
+}
+
+/**
+ * Finds where to insert a new member before the member starting at `offset`: after the preceding
+ * `{` or `,` and any comment on the same line, so comments above the member stay attached to it.
+ */
+function insertionOffset(tokens: Token[], offset: number): number {
+  const before = tokens.filter((token) => token.loc.end.offset <= offset);
+  const anchor = before.findLast((token) => token.type !== "LineComment" && token.type !== "BlockComment");
+  if (!anchor) {
+    return offset;
+  }
+  const sameLine = before.filter((token) => token.loc.start.line === anchor.loc.end.line);
+  return sameLine[sameLine.length - 1].loc.end.offset;
+}
+
+/**
+ * Applies one edit to JSON or JSON5 text using source ranges, leaving the rest of the text untouched.
+ */
+function applyJsonEdit(content: string, format: "json" | "json5", edit: ManifestEdit): string {
+  const ast = parseJson(content, { mode: format, tokens: true });
+  const parent = findJsonNode(ast.body, edit.path.slice(0, -1));
+  if (parent?.type !== "Object") {
+    return content;
+  }
+  const key = String(edit.path[edit.path.length - 1]);
+  const position = parent.members.findIndex((m) => memberKey(m) === key);
+  const member = parent.members[position];
+  const splice = (start: number, end: number, text: string) => content.slice(0, start) + text + content.slice(end);
+
+  if (edit.op === "set") {
+    if (member) {
+      return splice(member.value.loc.start.offset, member.value.loc.end.offset, JSON.stringify(edit.value));
+    }
+    const entry = formatJsonMember(key, edit.value, parent, content, format);
+    const index = edit.index ?? parent.members.length;
+    const next = parent.members[index];
+    if (next) {
+      const offset = insertionOffset(ast.tokens ?? [], next.loc.start.offset);
+      const gap = content.slice(offset, next.loc.start.offset);
+      if (!gap.includes("\n")) {
+        // The member shares a line with the `{` or `,` before it, so the object is written inline
+        return splice(next.loc.start.offset, next.loc.start.offset, `${entry},${gap}`);
+      }
+      const indent = " ".repeat(next.loc.start.column - 1);
+      return splice(offset, offset, `\n${indent}${entry},`);
+    }
+    const last = parent.members[parent.members.length - 1];
+    if (last && last.loc.end.line === parent.loc.end.line) {
+      const gap = /^\s*/.exec(content.slice(parent.loc.start.offset + 1))?.[0] ?? "";
+      return splice(last.loc.end.offset, last.loc.end.offset, `,${gap}${entry}`);
+    }
+    if (last) {
+      const indent = " ".repeat(last.loc.start.column - 1);
+      return splice(last.loc.end.offset, last.loc.end.offset, `,\n${indent}${entry}`);
+    }
+    return splice(parent.loc.start.offset + 1, parent.loc.end.offset - 1, ` ${entry} `);
+  }
+
+  if (!member) {
+    return content;
+  }
+  if (edit.op === "rename") {
+    return splice(member.name.loc.start.offset, member.name.loc.end.offset, formatJsonKey(edit.to, parent, format));
+  }
+
+  const next = parent.members[position + 1];
+  const previous = parent.members[position - 1];
+  if (next) {
+    return splice(member.loc.start.offset, next.loc.start.offset, "");
+  }
+  if (previous) {
+    return splice(previous.loc.end.offset, member.loc.end.offset, "");
+  }
+  const trailingComma = /^\s*,/.exec(content.slice(member.loc.end.offset));
+  return splice(member.loc.start.offset, member.loc.end.offset + (trailingComma?.[0].length ?? 0), "");
+}
+
+/**
+ * Applies migration edits to manifest file contents, preserving key order, comments and formatting
+ * outside the edited values.
+ */
+export function applyManifestEdits(content: string, format: ManifestFormat, edits: ManifestEdit[]): string {
+  if (format === "yaml") {
+    return applyYamlEdits(content, edits);
+  }
+  // Re-parse after every edit so source ranges stay accurate
+  return edits.reduce((text, edit) => applyJsonEdit(text, format, edit), content);
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it } from "vitest";
+import {
+  comparePlans,
+  findPlanOptionConflicts,
+  fingerprint,
+  formatPlan,
+  parsePlan,
+  redactChanges,
+  type Plan,
+  type PlanOptions,
+  type ResourcePlan,
+} from "./plan";
+
+const createResourcePlan = (overrides: Partial<ResourcePlan> = {}): ResourcePlan => ({
+  name: "api",
+  action: "update",
+  uuid: "api-uuid",
+  changes: [{ field: "docker_registry_image_tag", current: "v1.0.0", desired: "v2.0.0" }],
+  envVars: { added: ["NEW_KEY"], changed: [], removed: ["OLD_KEY"] },
+  deploy: true,
+  liveHash: "live",
+  desiredHash: "desired",
+  ...overrides,
+});
+
+const createPlan = (resources: ResourcePlan[] = [createResourcePlan()]): Plan => ({
+  version: 1,
+  createdAt: "2025-01-01T00:00:00.000Z",
+  projectId: "project-uuid",
+  environmentName: "production",
+  dockerTag: "v2.0.0",
+  resources,
+});
+
+describe("fingerprint", () => {
+  it("should not depend on key order", () => {
+    expect(fingerprint({ a: 1, b: [1, 2] })).toBe(fingerprint({ b: [1, 2], a: 1 }));
+  });
+
+  it("should ignore undefined properties", () => {
+    expect(fingerprint({ a: 1, b: undefined })).toBe(fingerprint({ a: 1 }));
+  });
+
+  it("should depend on the key when one is given", () => {
+    expect(fingerprint({ a: 1 }, "key")).toBe(fingerprint({ a: 1 }, "key"));
+    expect(fingerprint({ a: 1 }, "key")).not.toBe(fingerprint({ a: 1 }, "other-key"));
+    expect(fingerprint({ a: 1 }, "key")).not.toBe(fingerprint({ a: 1 }));
+  });
+
+  it("should differ for different values", () => {
+    expect(fingerprint({ a: 1 })).not.toBe(fingerprint({ a: 2 }));
+  });
+});
+
+describe("comparePlans", () => {
+  it("should accept an identical plan", () => {
+    expect(comparePlans(createPlan(), { ...createPlan(), createdAt: "2025-01-02T00:00:00.000Z" })).toEqual([]);
+  });
+
+  it("should report a different Docker tag", () => {
+    const reasons = comparePlans(createPlan(), { ...createPlan(), dockerTag: "v3.0.0" });
+    expect(reasons).toEqual(["Docker tag changed from 'v2.0.0' to 'v3.0.0'"]);
+  });
+
+  it("should report live state changes", () => {
+    const reasons = comparePlans(createPlan(), createPlan([createResourcePlan({ liveHash: "other" })]));
+    expect(reasons).toEqual(["resource 'api' changed in Coolify since the plan was created"]);
+  });
+
+  it("should report desired configuration changes", () => {
+    const reasons = comparePlans(createPlan(), createPlan([createResourcePlan({ desiredHash: "other" })]));
+    expect(reasons).toEqual(["resource 'api' has a different desired configuration"]);
+  });
+
+  it("should report action changes", () => {
+    const reasons = comparePlans(
+      createPlan(),
+      createPlan([createResourcePlan({ action: "create", uuid: undefined, liveHash: null })]),
+    );
+    expect(reasons).toEqual(["resource 'api' would now be create instead of update"]);
+  });
+
+  it("should report added and removed resources", () => {
+    const reasons = comparePlans(createPlan(), createPlan([createResourcePlan({ name: "web" })]));
+    expect(reasons).toEqual([
+      "resource 'api' is no longer part of the plan",
+      "resource 'web' is not part of the saved plan",
+    ]);
+  });
+});
+
+describe("findPlanOptionConflicts", () => {
+  const options: PlanOptions = {
+    environment: "staging",
+    force: false,
+    only: ["api", "web"],
+    selector: { team: "payments" },
+    pruneStorage: true,
+    expandProcessEnv: false,
+  };
+  const saved: Plan = { ...createPlan(), options };
+
+  it("should accept options that match the plan", () => {
+    expect(findPlanOptionConflicts(saved, {})).toEqual([]);
+    expect(findPlanOptionConflicts(saved, { only: ["api", "web"], pruneStorage: true })).toEqual([]);
+  });
+
+  it("should describe options that differ from the plan", () => {
+    expect(
+      findPlanOptionConflicts(saved, {
+        environment: "production",
+        force: true,
+        exclude: ["worker"],
+        selector: { team: "search" },
+      }),
+    ).toEqual([
+      "--environment production conflicts with the plan, which was created with --environment staging",
+      "--force conflicts with the plan, which was created with no --force",
+      "--exclude worker conflicts with the plan, which was created with no --exclude",
+      "--selector team=search conflicts with the plan, which was created with --selector team=payments",
+    ]);
+  });
+
+  it("should reject a tag that differs from the plan", () => {
+    expect(findPlanOptionConflicts(saved, { tag: "v2.0.0" })).toEqual([]);
+    expect(findPlanOptionConflicts({ ...saved, options: undefined }, { tag: "v3.0.0" })).toEqual([
+      "--tag v3.0.0 conflicts with the plan, which was created with --tag v2.0.0",
+    ]);
+  });
+});
+
+describe("redactChanges", () => {
+  it("should hide sensitive values and keep others", () => {
+    expect(
+      redactChanges([
+        { field: "http_basic_auth_password", current: "old", desired: "new" },
+        { field: "http_basic_auth_username", current: "old", desired: "new" },
+      ]),
+    ).toEqual([
+      { field: "http_basic_auth_password", current: "[redacted]", desired: "[redacted]" },
+      { field: "http_basic_auth_username", current: "old", desired: "new" },
+    ]);
+  });
+
+  it("should keep unset values visible", () => {
+    expect(redactChanges([{ field: "http_basic_auth_password", current: null, desired: "new" }])).toEqual([
+      { field: "http_basic_auth_password", current: null, desired: "[redacted]" },
+    ]);
+  });
+});
+
+describe("formatPlan", () => {
+  it("should render actions, field changes and env var keys", () => {
+    const output = formatPlan(
+      createPlan([
+        createResourcePlan(),
+        createResourcePlan({
+          name: "old",
+          action: "prune",
+          changes: [],
+          envVars: { added: [], changed: [], removed: [] },
+          deploy: false,
+        }),
+      ]),
+    );
+
+    expect(output).toContain("~ api (update, deploy)");
+    expect(output).toContain('docker_registry_image_tag: "v1.0.0" -> "v2.0.0"');
+    expect(output).toContain("env added: NEW_KEY");
+    expect(output).toContain("env removed: OLD_KEY");
+    expect(output).toContain("- old (prune)");
+    expect(output).toContain("Summary: 0 to create, 1 to update, 0 unchanged, 1 to prune, 1 to deploy.");
+  });
+});
+
+describe("parsePlan", () => {
+  it("should round-trip a serialized plan", () => {
+    const plan = createPlan();
+    expect(parsePlan(JSON.parse(JSON.stringify(plan)))).toEqual(plan);
+  });
+
+  it("should keep the options a plan was created with", () => {
+    const plan: Plan = {
+      ...createPlan(),
+      options: { force: true, only: ["api"], pruneStorage: false, expandProcessEnv: true },
+    };
+    expect(parsePlan(JSON.parse(JSON.stringify(plan)))).toEqual(plan);
+  });
+
+  it("should reject an unknown version", () => {
+    expect(() => parsePlan({ ...createPlan(), version: 2 })).toThrow();
+  });
+});
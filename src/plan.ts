@@ -0,0 +1,324 @@
+import { createHash, createHmac } from "node:crypto";
+import { z } from "zod";
+import type { FieldChange } from "./diff";
+
+/**
+ * Action planned for a single resource.
+ */
+export type PlannedAction = "create" | "update" | "unchanged" | "prune";
+
+/**
+ * Planned changes for a single resource.
+ * Env vars are listed by key only and sensitive field values are redacted, so plan files contain no secret values.
+ * The hashes are derived from data that includes secrets; they are HMACs when the reconciler has a
+ * `fingerprintKey`, and plain hashes that can be checked against guessed values otherwise.
+ */
+export interface ResourcePlan {
+  name: string;
+  action: PlannedAction;
+  uuid?: string;
+  changes: FieldChange[];
+  envVars: {
+    added: string[];
+    changed: string[];
+    removed: string[];
+  };
+  /** Persistent storages by mount path; only present for resources that declare `storages` */
+  storages?: {
+    added: string[];
+    changed: string[];
+    removed: string[];
+  };
+  /** Scheduled tasks by name; only present for resources that declare `scheduledTasks` */
+  scheduledTasks?: {
+    added: string[];
+    changed: string[];
+    removed: string[];
+  };
+  deploy: boolean;
+  /** Fingerprint of the live application the plan was computed against */
+  liveHash: string | null;
+  /** Fingerprint of the desired configuration, including env var values and other secrets */
+  desiredHash: string | null;
+}
+
+/**
+ * Fields whose values are replaced before a plan is shown or saved.
+ */
+const SENSITIVE_FIELDS = new Set<string>(["http_basic_auth_password"]);
+
+/**
+ * Placeholder shown instead of a sensitive value.
+ */
+export const REDACTED = "[redacted]";
+
+/**
+ * Replaces the values of sensitive fields so they never end up in plan output or plan files.
+ */
+export function redactChanges(changes: FieldChange[]): FieldChange[] {
+  const redact = (value: unknown) => (value === null || value === undefined || value === "" ? value : REDACTED);
+  return changes.map((change) =>
+    SENSITIVE_FIELDS.has(change.field)
+      ? { ...change, current: redact(change.current), desired: redact(change.desired) }
+      : change,
+  );
+}
+
+/**
+ * Command line options that change what a plan contains. A saved plan records them so
+ * `apply --plan` runs with the same options.
+ */
+export interface PlanOptions {
+  environment?: string;
+  force: boolean;
+  only?: string[];
+  exclude?: string[];
+  selector?: Record<string, string>;
+  pruneStorage: boolean;
+  expandProcessEnv: boolean;
+}
+
+/**
+ * A complete, replayable reconciliation plan.
+ */
+export interface Plan {
+  version: 1;
+  createdAt: string;
+  projectId: string;
+  environmentName: string;
+  dockerTag: string;
+  /** Options the plan was computed with; plans written before options were recorded have none */
+  options?: PlanOptions;
+  resources: ResourcePlan[];
+}
+
+/**
+ * Schema for plan files written by the `plan` command.
+ */
+export const planSchema = z.object({
+  version: z.literal(1),
+  createdAt: z.string(),
+  projectId: z.string().min(1),
+  environmentName: z.string().min(1),
+  dockerTag: z.string().min(1),
+  options: z
+    .object({
+      environment: z.string().optional(),
+      force: z.boolean(),
+      only: z.array(z.string()).optional(),
+      exclude: z.array(z.string()).optional(),
+      selector: z.record(z.string(), z.string()).optional(),
+      pruneStorage: z.boolean(),
+      expandProcessEnv: z.boolean(),
+    })
+    .optional(),
+  resources: z.array(
+    z.object({
+      name: z.string().min(1),
+      action: z.enum(["create", "update", "unchanged", "prune"]),
+      uuid: z.string().optional(),
+      changes: z.array(
+        z.object({
+          field: z.string().min(1),
+          current: z.unknown(),
+          desired: z.unknown(),
+        }),
+      ),
+      envVars: z.object({
+        added: z.array(z.string()),
+        changed: z.array(z.string()),
+        removed: z.array(z.string()),
+      }),
+      storages: z
+        .object({
+          added: z.array(z.string()),
+          changed: z.array(z.string()),
+          removed: z.array(z.string()),
+        })
+        .optional(),
+      scheduledTasks: z
+        .object({
+          added: z.array(z.string()),
+          changed: z.array(z.string()),
+          removed: z.array(z.string()),
+        })
+        .optional(),
+      deploy: z.boolean(),
+      liveHash: z.string().nullable(),
+      desiredHash: z.string().nullable(),
+    }),
+  ),
+});
+
+/**
+ * Parses and validates a plan file's contents.
+ * @throws {z.ZodError} if validation fails
+ */
+export function parsePlan(data: unknown): Plan {
+  return planSchema.parse(data) as Plan;
+}
+
+/**
+ * Computes a stable fingerprint of a JSON-serializable value. With a key the fingerprint is an HMAC,
+ * so fingerprints of values that contain secrets cannot be checked against guesses without the key.
+ */
+export function fingerprint(value: unknown, key?: string): string {
+  const hash = key === undefined ? createHash("sha256") : createHmac("sha256", key);
+  return hash.update(stableStringify(value)).digest("hex");
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Compares a saved plan against a freshly computed one.
+ * Returns a list of reasons the saved plan can no longer be applied; empty if it still holds.
+ */
+export function comparePlans(saved: Plan, current: Plan): string[] {
+  const reasons: string[] = [];
+
+  if (saved.projectId !== current.projectId) {
+    reasons.push(`project changed from '${saved.projectId}' to '${current.projectId}'`);
+  }
+  if (saved.environmentName !== current.environmentName) {
+    reasons.push(`environment changed from '${saved.environmentName}' to '${current.environmentName}'`);
+  }
+  if (saved.dockerTag !== current.dockerTag) {
+    reasons.push(`Docker tag changed from '${saved.dockerTag}' to '${current.dockerTag}'`);
+  }
+
+  const currentByName = new Map(current.resources.map((r) => [r.name, r]));
+  const savedNames = new Set(saved.resources.map((r) => r.name));
+
+  for (const planned of saved.resources) {
+    const now = currentByName.get(planned.name);
+    if (!now) {
+      reasons.push(`resource '${planned.name}' is no longer part of the plan`);
+    } else if (planned.action !== now.action || planned.uuid !== now.uuid) {
+      reasons.push(`resource '${planned.name}' would now be ${now.action} instead of ${planned.action}`);
+    } else if (planned.liveHash !== now.liveHash) {
+      reasons.push(`resource '${planned.name}' changed in Coolify since the plan was created`);
+    } else if (planned.desiredHash !== now.desiredHash) {
+      reasons.push(`resource '${planned.name}' has a different desired configuration`);
+    }
+  }
+
+  for (const now of current.resources) {
+    if (!savedNames.has(now.name)) {
+      reasons.push(`resource '${now.name}' is not part of the saved plan`);
+    }
+  }
+
+  return reasons;
+}
+
+const PLAN_OPTION_FLAGS: Record<keyof PlanOptions, string> = {
+  environment: "--environment",
+  force: "--force",
+  only: "--only",
+  exclude: "--exclude",
+  selector: "--selector",
+  pruneStorage: "--prune-storage",
+  expandProcessEnv: "--expand-process-env",
+};
+
+function describePlanOption(name: keyof PlanOptions, value: PlanOptions[keyof PlanOptions]): string {
+  const flag = PLAN_OPTION_FLAGS[name];
+  if (value === undefined || value === false) {
+    return `no ${flag}`;
+  }
+  if (value === true) {
+    return flag;
+  }
+  if (typeof value === "string") {
+    return `${flag} ${value}`;
+  }
+  const list = Array.isArray(value) ? value : Object.entries(value).map(([key, label]) => `${key}=${label}`);
+  return `${flag} ${list.join(",")}`;
+}
+
+/**
+ * Compares the tag and options given on the command line with the ones a saved plan was created with.
+ * Returns a description of each one that differs; empty if `given` agrees with the plan.
+ */
+export function findPlanOptionConflicts(saved: Plan, given: Partial<PlanOptions> & { tag?: string }): string[] {
+  const conflicts: string[] = [];
+  if (given.tag !== undefined && given.tag !== saved.dockerTag) {
+    conflicts.push(`--tag ${given.tag} conflicts with the plan, which was created with --tag ${saved.dockerTag}`);
+  }
+  const { options } = saved;
+  if (!options) {
+    return conflicts;
+  }
+  for (const name of Object.keys(PLAN_OPTION_FLAGS) as (keyof PlanOptions)[]) {
+    if (Object.hasOwn(given, name) && stableStringify(given[name]) !== stableStringify(options[name])) {
+      conflicts.push(
+        `${describePlanOption(name, given[name])} conflicts with the plan, which was created with ${describePlanOption(name, options[name])}`,
+      );
+    }
+  }
+  return conflicts;
+}
+
+const ACTION_SYMBOLS: Record<PlannedAction, string> = {
+  create: "+",
+  update: "~",
+  unchanged: "=",
+  prune: "-",
+};
+
+/**
+ * Renders a plan as a human-readable summary.
+ */
+export function formatPlan(plan: Plan): string {
+  const lines: string[] = [
+    `Plan for environment '${plan.environmentName}' in project '${plan.projectId}' (tag: ${plan.dockerTag})`,
+    "",
+  ];
+
+  for (const resource of plan.resources) {
+    const suffix = resource.deploy ? ", deploy" : "";
+    lines.push(`  ${ACTION_SYMBOLS[resource.action]} ${resource.name} (${resource.action}${suffix})`);
+
+    for (const change of resource.changes) {
+      lines.push(`      ${change.field}: ${JSON.stringify(change.current)} -> ${JSON.stringify(change.desired)}`);
+    }
+
+    const { added, changed, removed } = resource.envVars;
+    if (added.length > 0) lines.push(`      env added: ${added.join(", ")}`);
+    if (changed.length > 0) lines.push(`      env changed: ${changed.join(", ")}`);
+    if (removed.length > 0) lines.push(`      env removed: ${removed.join(", ")}`);
+
+    if (resource.storages) {
+      const { added, changed, removed } = resource.storages;
+      if (added.length > 0) lines.push(`      storage added: ${added.join(", ")}`);
+      if (changed.length > 0) lines.push(`      storage changed: ${changed.join(", ")}`);
+      if (removed.length > 0) lines.push(`      storage removed: ${removed.join(", ")}`);
+    }
+    if (resource.scheduledTasks) {
+      const { added, changed, removed } = resource.scheduledTasks;
+      if (added.length > 0) lines.push(`      task added: ${added.join(", ")}`);
+      if (changed.length > 0) lines.push(`      task changed: ${changed.join(", ")}`);
+      if (removed.length > 0) lines.push(`      task removed: ${removed.join(", ")}`);
+    }
+  }
+
+  const count = (action: PlannedAction) => plan.resources.filter((r) => r.action === action).length;
+  const deploys = plan.resources.filter((r) => r.deploy).length;
+  lines.push(
+    "",
+    `Summary: ${count("create")} to create, ${count("update")} to update, ${count("unchanged")} unchanged, ${count("prune")} to prune, ${deploys} to deploy.`,
+  );
+
+  return lines.join("\n");
+}
@@ -1,5 +1,12 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import { createInitCommand } from "./program";
+import {
+  createApplyCommand,
+  createInitCommand,
+  createMigrateCommand,
+  createPlanCommand,
+  createSchemaCommand,
+  createValidateCommand,
+} from "./program";
 
 vi.mock("node:fs/promises");
 vi.mock("node:child_process");
@@ -43,3 +50,44 @@ describe("Program - Init Command", () => {
     expect(outputOption?.defaultValue).toBe("./coolify.manifest.json");
   });
 });
+
+describe("Program - Plan Command", () => {
+  it("should define tag and output options", () => {
+    const command = createPlanCommand();
+
+    expect(command.description()).toBe("Show the changes 'apply' would make without modifying Coolify");
+    expect(command.options.find((opt) => opt.long === "--tag")).toBeDefined();
+    expect(command.options.find((opt) => opt.long === "--out")).toBeDefined();
+  });
+
+  it("should let apply and plan select resources", () => {
+    for (const command of [createApplyCommand(), createPlanCommand()]) {
+      for (const long of ["--only", "--exclude", "--selector"]) {
+        expect(command.options.find((opt) => opt.long === long)).toBeDefined();
+      }
+    }
+  });
+
+  it("should let apply execute a saved plan", () => {
+    const command = createApplyCommand();
+    expect(command.options.find((opt) => opt.long === "--plan")).toBeDefined();
+  });
+});
+
+describe("Program - Validate and Schema Commands", () => {
+  it("should define an environment option for validate", () => {
+    const command = createValidateCommand();
+
+    expect(command.description()).toBe("Validate the manifest offline without contacting Coolify");
+    expect(command.options.find((opt) => opt.long === "--environment")).toBeDefined();
+  });
+
+  it("should describe the migrate command", () => {
+    expect(createMigrateCommand().description()).toBe("Rewrite the manifest in place in the current manifest format");
+  });
+
+  it("should define an output option for schema", () => {
+    const command = createSchemaCommand();
+    expect(command.options.find((opt) => opt.long === "--out")).toBeDefined();
+  });
+});
@@ -1,12 +1,41 @@
-import { Command } from "@commander-js/extra-typings";
+import { Command, InvalidArgumentError } from "@commander-js/extra-typings";
 import { execSync } from "node:child_process";
 import { access, readFile, writeFile } from "node:fs/promises";
-import { join, resolve } from "node:path";
+import { dirname, join, resolve } from "node:path";
 import { CoolifyClient } from "./coolify";
 import { parseEnv } from "./env";
 import { createLogger } from "./logger";
-import { parseManifest } from "./manifest";
+import { formatLintFinding, lintManifest } from "./lint";
+import { detectManifestFormat, loadManifestFile, ManifestError, parseManifestSource } from "./loader";
+import { createManifestJsonSchema, listSecretReferences, type Manifest } from "./manifest";
+import { applyManifestEdits, describeEdit, planManifestMigration } from "./migrations";
+import { findPlanOptionConflicts, formatPlan, parsePlan, type Plan, type PlanOptions } from "./plan";
 import { Reconciler } from "./reconciler";
+import { parseNameList, parseSelector } from "./selection";
+import { parseVariableAssignment } from "./variables";
+
+/**
+ * Collects repeated `--var key=value` options into a map.
+ */
+function collectVariable(assignment: string, previous: Record<string, string>): Record<string, string> {
+  try {
+    const [key, value] = parseVariableAssignment(assignment);
+    return { ...previous, [key]: value };
+  } catch (error) {
+    throw new InvalidArgumentError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Parses the `--selector` option.
+ */
+function parseSelectorOption(value: string): Record<string, string> {
+  try {
+    return parseSelector(value);
+  } catch (error) {
+    throw new InvalidArgumentError(error instanceof Error ? error.message : String(error));
+  }
+}
 
 /**
  * Creates the root program with global options.
@@ -18,8 +47,18 @@ export async function createProgram() {
     .name("cdeploy")
     .description("A tool to deploy and manage resources in Coolify using a manifest file.")
     .version(pkg.version)
-    .option("-m, --manifest <path>", "Path to coolify.manifest.json file", process.env.MANIFEST_PATH)
+    .option(
+      "-m, --manifest <path>",
+      "Path to the manifest file (.json, .json5, .yaml or .yml)",
+      process.env.MANIFEST_PATH,
+    )
     .option("-s, --server-id <uuid>", "Coolify server UUID (overrides manifest)")
+    .option(
+      "--var <key=value>",
+      "Set a variable for ${VAR} placeholders in the manifest (repeatable)",
+      collectVariable,
+      {} as Record<string, string>,
+    )
     .option("-d, --dry-run", "Run without making changes", process.env.DRY_RUN === "true");
 
   return program;
@@ -27,6 +66,51 @@ export async function createProgram() {
 
 export type ProgramOptions = ReturnType<Awaited<ReturnType<typeof createProgram>>["opts"]>;
 
+/**
+ * Collects `COOLIFY_ENV_*` secrets and any other secrets the manifest references from the process environment.
+ */
+function collectEnvSecrets(manifest: Manifest): Record<string, string> {
+  // The shared env file is only read for env var references
+  const referenced = new Set([...listSecretReferences(manifest), manifest.envFileSecretName]);
+  const envSecrets: Record<string, string> = {};
+  for (const key in process.env) {
+    if (key.startsWith("COOLIFY_ENV_") || referenced.has(key)) {
+      const value = process.env[key];
+      if (value) {
+        envSecrets[key] = value;
+      }
+    }
+  }
+  return envSecrets;
+}
+
+/**
+ * Picks the options a plan is computed with from the `apply` or `plan` command options.
+ */
+function readPlanOptions(options: PlanOptions): PlanOptions {
+  return {
+    environment: options.environment,
+    force: options.force,
+    only: options.only,
+    exclude: options.exclude,
+    selector: options.selector,
+    pruneStorage: options.pruneStorage,
+    expandProcessEnv: options.expandProcessEnv,
+  };
+}
+
+/**
+ * Keeps the plan options that were given on the command line rather than defaulted.
+ */
+function pickGivenOptions(
+  options: PlanOptions,
+  command: { getOptionValueSource(key: string): string | undefined },
+): Partial<PlanOptions> {
+  return Object.fromEntries(
+    Object.entries(options).filter(([name]) => command.getOptionValueSource(name) === "cli"),
+  ) as Partial<PlanOptions>;
+}
+
 /**
  * Creates the 'apply' subcommand.
  */
@@ -39,6 +123,18 @@ export function createApplyCommand() {
       'Docker image tag to deploy (e.g., "latest" or "v1.0.0")',
       process.env.DOCKER_IMAGE_TAG || "latest",
     )
+    .option("-f, --force", "Redeploy existing resources even when no changes are detected", false)
+    .option("-p, --plan <path>", "Execute a plan file created by the 'plan' command")
+    .option("-e, --environment <name>", "Manifest environment to resolve from the 'environments' map")
+    .option("--only <names>", "Only reconcile these comma-separated resources (disables pruning)", parseNameList)
+    .option("--exclude <names>", "Leave these comma-separated resources untouched (disables pruning)", parseNameList)
+    .option(
+      "--selector <labels>",
+      "Only reconcile resources with all of these labels, e.g. team=payments (disables pruning)",
+      parseSelectorOption,
+    )
+    .option("--prune-storage", "Delete storages that are not in the manifest, including their data", false)
+    .option("--expand-process-env", "Let env var references fall back to the process environment", false)
     .action(async (options, command) => {
       const globalOptions = command.optsWithGlobals();
 
@@ -51,7 +147,7 @@ export function createApplyCommand() {
         process.exit(1);
       }
 
-      const dockerTag = options.tag;
+      let dockerTag = options.tag;
       if (!dockerTag) {
         logger.fatal({}, "Docker image tag is required. Use --tag or DOCKER_IMAGE_TAG env var.");
         process.exit(1);
@@ -59,15 +155,36 @@ export function createApplyCommand() {
 
       const dryRun = globalOptions.dryRun;
 
-      logger.info({ manifestPath, dockerTag, dryRun }, "Starting Coolify deploy tool");
+      logger.info(
+        { manifestPath, environment: options.environment, dockerTag, dryRun },
+        "Starting Coolify deploy tool",
+      );
 
       try {
-        const absolutePath = resolve(process.cwd(), manifestPath);
-        logger.debug({ path: absolutePath }, "Reading manifest file");
+        let planOptions = readPlanOptions(options);
+        let savedPlan: Plan | undefined;
+        if (options.plan) {
+          savedPlan = parsePlan(JSON.parse(await readFile(resolve(process.cwd(), options.plan), "utf-8")));
+          // The plan pins the tag and the options it was computed with
+          const tagGiven = command.getOptionValueSource("tag") === "cli" || Boolean(process.env.DOCKER_IMAGE_TAG);
+          const conflicts = findPlanOptionConflicts(savedPlan, {
+            ...pickGivenOptions(planOptions, command),
+            tag: tagGiven ? options.tag : undefined,
+          });
+          if (conflicts.length > 0) {
+            logger.fatal({ conflicts }, "Options conflict with the saved plan. Omit them to use the plan's options.");
+            process.exit(1);
+          }
+          dockerTag = savedPlan.dockerTag;
+          planOptions = savedPlan.options ?? planOptions;
+          logger.info({ planPath: options.plan, dockerTag, options: planOptions }, "Loaded saved plan");
+        }
 
-        const manifestContent = await readFile(absolutePath, "utf-8");
-        const manifestData = JSON.parse(manifestContent);
-        const manifest = parseManifest(manifestData);
+        logger.debug({ path: resolve(process.cwd(), manifestPath) }, "Reading manifest file");
+        const manifest = await loadManifestFile(manifestPath, {
+          environment: planOptions.environment,
+          variables: { ...process.env, ...globalOptions.var },
+        });
 
         logger.info(
           {
@@ -78,34 +195,42 @@ export function createApplyCommand() {
           "Manifest loaded successfully",
         );
 
-        const client = new CoolifyClient(env.COOLIFY_ENDPOINT_URL, env.COOLIFY_TOKEN, logger, dryRun);
-
-        const envSecrets: Record<string, string> = {};
-        for (const key in process.env) {
-          if (key.startsWith("COOLIFY_ENV_")) {
-            const value = process.env[key];
-            if (value) {
-              envSecrets[key] = value;
-            }
-          }
+        const findings = lintManifest(manifest);
+        for (const finding of findings) {
+          const level = finding.severity === "error" ? "error" : "warn";
+          logger[level]({ rule: finding.rule, path: finding.path.map(String).join(".") }, finding.message);
+        }
+        if (findings.some((finding) => finding.severity === "error")) {
+          logger.fatal({}, "Manifest has lint errors. Fix them or change the rule severity in 'lint.rules'.");
+          process.exit(1);
         }
 
+        const client = new CoolifyClient(env.COOLIFY_ENDPOINT_URL, env.COOLIFY_TOKEN, logger, dryRun);
+
         const reconciler = new Reconciler(client, logger, {
           manifest,
           dockerTag,
-          envSecrets,
+          envSecrets: collectEnvSecrets(manifest),
           serverId: globalOptions.serverId,
+          force: planOptions.force,
+          baseDir: dirname(resolve(process.cwd(), manifestPath)),
+          selection: { only: planOptions.only, exclude: planOptions.exclude, selector: planOptions.selector },
+          pruneStorage: planOptions.pruneStorage,
+          processEnv: planOptions.expandProcessEnv ? process.env : undefined,
+          fingerprintKey: env.COOLIFY_TOKEN,
         });
 
-        const result = await reconciler.reconcile();
+        const result = await reconciler.reconcile(savedPlan);
 
         logger.info(
           {
             success: result.success,
             totalCreated: result.totalCreated,
             totalUpdated: result.totalUpdated,
+            totalUnchanged: result.totalUnchanged,
             totalFailed: result.totalFailed,
             totalPruned: result.totalPruned,
+            totalSkipped: result.totalSkipped,
             resources: result.resources,
           },
           "Reconciliation complete",
@@ -122,7 +247,7 @@ export function createApplyCommand() {
             })),
           );
           console.log(
-            `\nCreated: ${result.totalCreated}, Updated: ${result.totalUpdated}, Pruned: ${result.totalPruned}, Failed: ${result.totalFailed}\n`,
+            `\nCreated: ${result.totalCreated}, Updated: ${result.totalUpdated}, Unchanged: ${result.totalUnchanged}, Pruned: ${result.totalPruned}, Skipped: ${result.totalSkipped}, Failed: ${result.totalFailed}\n`,
           );
         }
 
@@ -145,6 +270,91 @@ export function createApplyCommand() {
   return command;
 }
 
+/**
+ * Creates the 'plan' subcommand.
+ */
+export function createPlanCommand() {
+  // eslint-disable-next-line @typescript-eslint/no-empty-object-type
+  const command = new Command<[], {}, ProgramOptions>("plan")
+    .description("Show the changes 'apply' would make without modifying Coolify")
+    .option(
+      "-t, --tag <tag>",
+      'Docker image tag to deploy (e.g., "latest" or "v1.0.0")',
+      process.env.DOCKER_IMAGE_TAG || "latest",
+    )
+    .option("-f, --force", "Redeploy existing resources even when no changes are detected", false)
+    .option("-o, --out <path>", "Write the plan as JSON to a file for use with 'apply --plan'")
+    .option("-e, --environment <name>", "Manifest environment to resolve from the 'environments' map")
+    .option("--only <names>", "Only reconcile these comma-separated resources (disables pruning)", parseNameList)
+    .option("--exclude <names>", "Leave these comma-separated resources untouched (disables pruning)", parseNameList)
+    .option(
+      "--selector <labels>",
+      "Only reconcile resources with all of these labels, e.g. team=payments (disables pruning)",
+      parseSelectorOption,
+    )
+    .option("--prune-storage", "Delete storages that are not in the manifest, including their data", false)
+    .option("--expand-process-env", "Let env var references fall back to the process environment", false)
+    .action(async (options, command) => {
+      const globalOptions = command.optsWithGlobals();
+
+      const env = parseEnv();
+      // Mute logger so only the plan summary is printed
+      // @ts-expect-error TS2322 - createLogger infers LOG_LEVEL as string literal
+      const logger = createLogger({ ...env, LOG_LEVEL: "silent" });
+
+      const manifestPath = globalOptions.manifest;
+      if (!manifestPath) {
+        console.error("[ERROR] Manifest path is required. Use --manifest or MANIFEST_PATH env var.");
+        process.exit(1);
+      }
+
+      try {
+        const manifest = await loadManifestFile(manifestPath, {
+          environment: options.environment,
+          variables: { ...process.env, ...globalOptions.var },
+        });
+
+        const findings = lintManifest(manifest);
+        for (const finding of findings) {
+          console.error(formatLintFinding(finding));
+        }
+        if (findings.some((finding) => finding.severity === "error")) {
+          console.error("[ERROR] Manifest has lint errors. Fix them or change the rule severity in 'lint.rules'.");
+          process.exit(1);
+        }
+
+        const client = new CoolifyClient(env.COOLIFY_ENDPOINT_URL, env.COOLIFY_TOKEN, logger, true);
+        const reconciler = new Reconciler(client, logger, {
+          manifest,
+          dockerTag: options.tag,
+          envSecrets: collectEnvSecrets(manifest),
+          serverId: globalOptions.serverId,
+          force: options.force,
+          baseDir: dirname(resolve(process.cwd(), manifestPath)),
+          selection: { only: options.only, exclude: options.exclude, selector: options.selector },
+          pruneStorage: options.pruneStorage,
+          processEnv: options.expandProcessEnv ? process.env : undefined,
+          fingerprintKey: env.COOLIFY_TOKEN,
+        });
+
+        const plan: Plan = { ...(await reconciler.plan()), options: readPlanOptions(options) };
+        console.log(formatPlan(plan));
+
+        if (options.out) {
+          await writeFile(options.out, JSON.stringify(plan, null, 2));
+          console.log(`\nPlan saved to ${options.out}. Run 'cdeploy apply --plan ${options.out}' to execute it.`);
+        }
+
+        process.exit(0);
+      } catch (error) {
+        console.error(`[ERROR] Failed to compute plan: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
 /**
  * Creates the 'state' subcommand.
  */
@@ -152,7 +362,8 @@ export function createStateCommand() {
   // eslint-disable-next-line @typescript-eslint/no-empty-object-type
   const command = new Command<[], {}, ProgramOptions>("state")
     .description("Get the current state of resources from the manifest")
-    .action(async (_options, command) => {
+    .option("-e, --environment <name>", "Manifest environment to resolve from the 'environments' map")
+    .action(async (options, command) => {
       const globalOptions = command.optsWithGlobals();
 
       const env = parseEnv();
@@ -167,10 +378,10 @@ export function createStateCommand() {
       }
 
       try {
-        const absolutePath = resolve(process.cwd(), manifestPath);
-        const manifestContent = await readFile(absolutePath, "utf-8");
-        const manifestData = JSON.parse(manifestContent);
-        const manifest = parseManifest(manifestData);
+        const manifest = await loadManifestFile(manifestPath, {
+          environment: options.environment,
+          variables: { ...process.env, ...globalOptions.var },
+        });
 
         if (globalOptions.dryRun) {
           const resourceNames = manifest.resources.map((r) => r.name).join(", ");
@@ -257,6 +468,151 @@ export function createStateCommand() {
   return command;
 }
 
+/**
+ * Creates the 'validate' subcommand. It runs offline and does not need Coolify credentials.
+ */
+export function createValidateCommand() {
+  // eslint-disable-next-line @typescript-eslint/no-empty-object-type
+  const command = new Command<[], {}, ProgramOptions>("validate")
+    .description("Validate the manifest offline without contacting Coolify")
+    .option("-e, --environment <name>", "Only validate this entry of the 'environments' map")
+    .action(async (options, command) => {
+      const globalOptions = command.optsWithGlobals();
+
+      const manifestPath = globalOptions.manifest;
+      if (!manifestPath) {
+        console.error("[ERROR] Manifest path is required. Use --manifest or MANIFEST_PATH env var.");
+        process.exit(1);
+      }
+
+      const variables = { ...process.env, ...globalOptions.var };
+      const validate = async (environment?: string): Promise<Manifest | undefined> => {
+        const label = environment ? `${manifestPath} (environment '${environment}')` : manifestPath;
+        try {
+          const manifest = await loadManifestFile(manifestPath, { environment, variables });
+          const findings = lintManifest(manifest);
+          const valid = !findings.some((finding) => finding.severity === "error");
+          if (valid) {
+            console.log(`[OK] ${label} is valid`);
+          } else {
+            console.error(`[ERROR] ${label} has lint errors:`);
+          }
+          for (const finding of findings) {
+            console.error(`  ${formatLintFinding(finding)}`);
+          }
+          return valid ? manifest : undefined;
+        } catch (error) {
+          if (!(error instanceof ManifestError)) {
+            throw error;
+          }
+          console.error(`[ERROR] ${error.message}`);
+          return undefined;
+        }
+      };
+
+      try {
+        if (options.environment) {
+          process.exit((await validate(options.environment)) ? 0 : 1);
+        }
+
+        // Without --environment, check the base manifest and every environment it defines
+        const manifest = await validate();
+        if (!manifest) {
+          process.exit(1);
+        }
+        let valid = true;
+        for (const environment of Object.keys(manifest.environments ?? {})) {
+          valid = (await validate(environment)) !== undefined && valid;
+        }
+        process.exit(valid ? 0 : 1);
+      } catch (error) {
+        console.error(`[ERROR] Failed to read manifest: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
+/**
+ * Creates the 'schema' subcommand.
+ */
+export function createSchemaCommand() {
+  // eslint-disable-next-line @typescript-eslint/no-empty-object-type
+  const command = new Command<[], {}, ProgramOptions>("schema")
+    .description("Print the JSON Schema of the manifest for editor completion via '$schema'")
+    .option("-o, --out <path>", "Write the schema to a file instead of stdout")
+    .action(async (options) => {
+      const schema = JSON.stringify(createManifestJsonSchema(), null, 2);
+
+      if (options.out) {
+        await writeFile(options.out, `${schema}\n`);
+        console.log(`Schema saved to ${options.out}`);
+      } else {
+        console.log(schema);
+      }
+    });
+
+  return command;
+}
+
+/**
+ * Creates the 'migrate' subcommand.
+ */
+export function createMigrateCommand() {
+  // eslint-disable-next-line @typescript-eslint/no-empty-object-type
+  const command = new Command<[], {}, ProgramOptions>("migrate")
+    .description("Rewrite the manifest in place in the current manifest format")
+    .action(async (_options, command) => {
+      const globalOptions = command.optsWithGlobals();
+
+      const manifestPath = globalOptions.manifest;
+      if (!manifestPath) {
+        console.error("[ERROR] Manifest path is required. Use --manifest or MANIFEST_PATH env var.");
+        process.exit(1);
+      }
+
+      try {
+        const absolutePath = resolve(process.cwd(), manifestPath);
+        const format = detectManifestFormat(absolutePath);
+        const content = await readFile(absolutePath, "utf-8");
+        const { data } = parseManifestSource(content, format, manifestPath);
+        if (typeof data !== "object" || data === null || Array.isArray(data)) {
+          console.error(`[ERROR] ${manifestPath} does not contain a manifest object`);
+          process.exit(1);
+        }
+
+        const plan = planManifestMigration(data as Record<string, unknown>);
+        if (plan.edits.length === 0) {
+          console.log(`${manifestPath} is already at version ${plan.toVersion}`);
+          process.exit(0);
+        }
+
+        console.log(
+          plan.fromVersion === plan.toVersion
+            ? `Setting the version of ${manifestPath} to ${plan.toVersion}:`
+            : `Migrating ${manifestPath} from version ${plan.fromVersion} to ${plan.toVersion}:`,
+        );
+        for (const edit of plan.edits) {
+          console.log(`  ${describeEdit(edit)}`);
+        }
+
+        if (globalOptions.dryRun) {
+          console.log("\nDry run: the manifest was not changed.");
+        } else {
+          await writeFile(absolutePath, applyManifestEdits(content, format, plan.edits));
+          console.log(`\n${manifestPath} updated.`);
+        }
+        process.exit(0);
+      } catch (error) {
+        console.error(`[ERROR] Failed to migrate manifest: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
+
 /**
  * Creates the 'init' subcommand.
  */
@@ -472,10 +828,18 @@ export function createInitCommand() {
 export async function assembleProgram() {
   const program = await createProgram();
   const applyCommand = createApplyCommand();
+  const planCommand = createPlanCommand();
   const stateCommand = createStateCommand();
   const initCommand = createInitCommand();
+  const validateCommand = createValidateCommand();
+  const schemaCommand = createSchemaCommand();
+  const migrateCommand = createMigrateCommand();
   program.addCommand(applyCommand);
+  program.addCommand(planCommand);
   program.addCommand(stateCommand);
   program.addCommand(initCommand);
+  program.addCommand(validateCommand);
+  program.addCommand(schemaCommand);
+  program.addCommand(migrateCommand);
   return program;
 }
@@ -1,13 +1,60 @@
-import { CoolifyClient, type CoolifyEnvVar } from "./coolify";
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import {
+  buildDatabaseUrl,
+  CoolifyClient,
+  serializeComposeDomains,
+  type CoolifyCreateComposeAppOptions,
+  type CoolifyCreateDockerImageAppOptions,
+  type CoolifyCreateGitAppOptions,
+  type CoolifyCreateStorageOptions,
+  type CoolifyEnvironment,
+  type CoolifyEnvVar,
+  type CoolifyScheduledTaskOptions,
+  type CoolifyUpdateAppOptions,
+} from "./coolify";
+import {
+  buildPatchOptions,
+  diffApplication,
+  diffDatabase,
+  diffEnvironmentVariables,
+  diffScheduledTasks,
+  diffStorages,
+  hasEnvVarChanges,
+  hasScheduledTaskChanges,
+  hasStorageChanges,
+  pickLiveFields,
+  type EnvVarDiff,
+  type ScheduledTaskDiff,
+  type StorageDiff,
+} from "./diff";
+import { type DotenvQuote, expandEnvVars, parseDotenv } from "./dotenv";
 import type { Logger } from "./logger";
-import type { Manifest, Resource } from "./manifest";
+import {
+  orderByDependencies,
+  type ComposeResource,
+  type Database,
+  type EnvVarFlags,
+  type Manifest,
+  type ManifestResource,
+} from "./manifest";
+import { comparePlans, fingerprint, redactChanges, type Plan, type ResourcePlan } from "./plan";
+import { isPartialSelection, selectResources, type ResourceSelection } from "./selection";
+import type {
+  CoolifyCreateDatabaseOptions,
+  CoolifyDatabase,
+  CoolifyDeployResponse,
+  CoolifyDestination,
+  CoolifyStorage,
+  CoolifyUpdateDatabaseOptions,
+} from "./types";
 
 /**
  * Result of reconciling a single resource.
  */
 export interface ReconcileResourceResult {
   name: string;
-  action: "created" | "updated" | "unchanged" | "failed" | "pruned";
+  action: "created" | "updated" | "unchanged" | "failed" | "pruned" | "skipped";
   uuid?: string;
   deploymentUuid?: string;
   error?: string;
@@ -21,8 +68,11 @@ export interface ReconcileResult {
   resources: ReconcileResourceResult[];
   totalCreated: number;
   totalUpdated: number;
+  totalUnchanged: number;
   totalFailed: number;
   totalPruned: number;
+  /** Resources not touched because a dependency failed */
+  totalSkipped: number;
 }
 
 /**
@@ -33,64 +83,114 @@ export interface ReconcilerOptions {
   dockerTag: string;
   envSecrets?: Record<string, string>;
   serverId?: string;
+  /** Redeploy existing applications even when no changes are detected */
+  force?: boolean;
+  /** Directory that file paths in the manifest are relative to, defaults to the working directory */
+  baseDir?: string;
+  /** Only reconcile part of the manifest; pruning is disabled when it leaves resources out */
+  selection?: ResourceSelection;
+  /** Delete live storages that are not in the manifest; they are kept and reported otherwise */
+  pruneStorage?: boolean;
+  /** Variables that env var references fall back to after the resource and shared env files */
+  processEnv?: Record<string, string | undefined>;
+  /** Key for the plan fingerprints, so saved plans do not carry plain hashes of secret values */
+  fingerprintKey?: string;
 }
 
 /**
- * Parses a .env formatted string into key-value pairs.
- * Supports:
- * - KEY=value
- * - KEY="quoted value"
- * - KEY='single quoted value'
- * - Comments starting with #
- * - Empty lines
+ * An application plan together with the data needed to execute it.
  */
-export function parseEnvFile(content: string): Record<string, string> {
-  const result: Record<string, string> = {};
-  const lines = content.split(/\r?\n/);
+interface PlannedApplication {
+  kind: "application";
+  plan: ResourcePlan;
+  envVars: CoolifyEnvVar[];
+  envVarDiff?: EnvVarDiff;
+  createOptions?: CoolifyCreateDockerImageAppOptions | CoolifyCreateGitAppOptions | CoolifyCreateComposeAppOptions;
+  /** Storages created right after the application */
+  storages?: CoolifyCreateStorageOptions[];
+  storageDiff?: StorageDiff;
+  /** Scheduled tasks created right after the application */
+  scheduledTasks?: CoolifyScheduledTaskOptions[];
+  scheduledTaskDiff?: ScheduledTaskDiff;
+  /** Unredacted update payload for the changed fields, or for settings applied right after creation */
+  patch?: CoolifyUpdateAppOptions;
+  /** Env vars referencing databases created in this run, keyed by env var name */
+  pendingDatabaseUrls?: Record<string, string>;
+  /** Resources whose deployments must succeed before this one is executed */
+  dependsOn?: string[];
+}
 
-  for (const line of lines) {
-    const trimmed = line.trim();
+/**
+ * A database plan together with the data needed to execute it.
+ */
+interface PlannedDatabase {
+  kind: "database";
+  plan: ResourcePlan;
+  database?: Database;
+  createOptions?: CoolifyCreateDatabaseOptions;
+  patch?: CoolifyUpdateDatabaseOptions;
+}
 
-    // Skip empty lines and comments
-    if (!trimmed || trimmed.startsWith("#")) {
-      continue;
-    }
+type PlannedResource = PlannedApplication | PlannedDatabase;
 
-    // Match KEY=value pattern
-    const match = trimmed.match(/^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/);
-    if (!match) {
-      continue;
-    }
+/**
+ * Stands in for the UUID of a database that does not exist yet when planning its connection string.
+ */
+const PENDING_DATABASE_UUID = "pending";
 
-    const key = match[1];
-    let value = match[2];
+/**
+ * Lists the keys whose values were single-quoted, which are kept literal like in a shell.
+ */
+function singleQuotedKeys(quotes: Record<string, DotenvQuote>): Set<string> {
+  return new Set(Object.keys(quotes).filter((key) => quotes[key] === "'"));
+}
 
-    // Handle quoted values and mismatched quotes
-    if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
-      value = value.slice(1, -1);
-    } else if ((value.startsWith('"') && !value.endsWith('"')) || (value.startsWith("'") && !value.endsWith("'"))) {
-      // Mismatched quotes detected, skip this line or document the behavior
-      // Optionally, log a warning here if a logger is available
-      continue;
-    }
+/**
+ * Tags that name a fixed image: full versions such as `v1.2.3` or `1.2.3-alpine`, commit SHAs such as
+ * `sha-3f2a9c1`, and digests. Major and minor tags such as `20` or `1.2` move with each release.
+ */
+const PINNED_TAG_PATTERN = /^(?:v?\d+\.\d+\.\d+(?:[-+][\w.]+)?|(?:sha-)?[0-9a-f]{7,40}|sha256:[0-9a-f]{64})$/i;
 
-    result[key] = value;
-  }
+/**
+ * Whether a Docker tag may point to a different image over time, like `latest` or `main`.
+ */
+export function isMutableTag(tag: string): boolean {
+  return !PINNED_TAG_PATTERN.test(tag);
+}
 
-  return result;
+/**
+ * Returns why an application without configuration changes is deployed anyway, if it is.
+ * Coolify does not expose the deployed image digest or commit, so sources that can change
+ * without the manifest changing are always deployed.
+ */
+function redeployReason(resource: ManifestResource, dockerTag: string): string | undefined {
+  if (resource.type === "git") {
+    return "Git resources are deployed on every apply to build the latest commit";
+  }
+  if (resource.type === "compose") {
+    return "Compose resources are deployed on every apply to pull their latest images";
+  }
+  return isMutableTag(dockerTag) ? `Tag '${dockerTag}' is mutable, deploying to pull the latest image` : undefined;
 }
 
 /**
  * Converts parsed env vars to Coolify format.
+ * Values are sent as literals unless `flags` says otherwise. Build time and runtime availability
+ * are only sent when set, leaving Coolify's current setting in place.
  */
-export function envVarsToCoolifyFormat(envVars: Record<string, string>): CoolifyEnvVar[] {
+export function envVarsToCoolifyFormat(
+  envVars: Record<string, string>,
+  flags: Record<string, EnvVarFlags> = {},
+): CoolifyEnvVar[] {
   return Object.entries(envVars).map(([key, value]) => ({
     key,
     value,
-    is_preview: false,
-    is_literal: true,
+    is_preview: flags[key]?.preview ?? false,
+    is_literal: flags[key]?.literal ?? true,
     is_multiline: value.includes("\n"),
-    is_shown_once: false,
+    is_shown_once: flags[key]?.shownOnce ?? false,
+    is_buildtime: flags[key]?.buildTime,
+    is_runtime: flags[key]?.runtime,
   }));
 }
 
@@ -101,6 +201,8 @@ export class Reconciler {
   private readonly client: CoolifyClient;
   private readonly logger: Logger;
   private readonly options: ReconcilerOptions;
+  /** Parsed shared env file, read on first use */
+  private sharedEnvVars?: Record<string, string>;
 
   constructor(client: CoolifyClient, logger: Logger, options: ReconcilerOptions) {
     this.client = client;
@@ -108,49 +210,79 @@ export class Reconciler {
     this.options = options;
   }
 
+  /**
+   * Computes the actions needed to reconcile the manifest without modifying Coolify.
+   * @throws {Error} if the target environment or server cannot be resolved
+   */
+  async plan(): Promise<Plan> {
+    const { manifest } = this.options;
+
+    const environment = await this.resolveEnvironment();
+    if (!environment) {
+      throw new Error(`Target environment '${manifest.environmentName}' does not exist in Coolify project`);
+    }
+    const serverId = this.resolveServerId();
+    if (!serverId) {
+      throw new Error("Server ID is required but not provided in manifest or options");
+    }
+
+    const { resources, databases } = this.selectTargets();
+    await this.validatePlacements(resources, serverId);
+    const liveDatabases = await this.listEnvironmentDatabases(environment.id);
+    const planned: PlannedResource[] = [];
+    for (const database of databases) {
+      planned.push(this.planDatabase(database, liveDatabases, serverId, environment));
+    }
+    for (const resource of orderByDependencies(resources)) {
+      planned.push(await this.planResource(resource, serverId, environment, liveDatabases));
+    }
+    planned.push(...(await this.planPruning(environment.id, liveDatabases)));
+
+    return this.toPlan(planned);
+  }
+
   /**
    * Reconciles all resources in the manifest.
+   * When a saved plan is given, it is only executed if it still matches the live state.
+   * @throws {Error} if the saved plan is out of date
    */
-  async reconcile(): Promise<ReconcileResult> {
-    const { manifest, dockerTag, envSecrets = {} } = this.options;
+  async reconcile(savedPlan?: Plan): Promise<ReconcileResult> {
+    const { manifest, dockerTag } = this.options;
+    const { resources, databases } = this.selectTargets();
     const results: ReconcileResourceResult[] = [];
     let totalCreated = 0;
     let totalUpdated = 0;
+    let totalUnchanged = 0;
     let totalFailed = 0;
     let totalPruned = 0;
+    let totalSkipped = 0;
 
     this.logger.info(
       {
         projectId: manifest.projectId,
         environmentName: manifest.environmentName,
-        resourceCount: manifest.resources.length,
+        resourceCount: resources.length,
         dockerTag,
       },
       "Starting reconciliation",
     );
 
     // Check if the environment exists
-    const environment = await this.client.findEnvironmentByName(manifest.projectId, manifest.environmentName);
-
+    const environment = await this.resolveEnvironment();
     if (!environment) {
-      this.logger.error(
-        {
-          projectId: manifest.projectId,
-          environmentName: manifest.environmentName,
-        },
-        "Target environment does not exist in Coolify project",
-      );
       return {
         success: false,
-        resources: manifest.resources.map((r) => ({
+        resources: resources.map((r) => ({
           name: r.name,
           action: "failed",
           error: "Target environment does not exist",
         })),
         totalCreated: 0,
         totalUpdated: 0,
-        totalFailed: manifest.resources.length,
+        totalUnchanged: 0,
+        totalFailed: resources.length,
         totalPruned: 0,
+        totalSkipped: 0,
       };
     }
 
@@ -160,49 +292,45 @@ export class Reconciler {
     );
 
     // Determine server UUID
-    const serverId = this.options.serverId ?? manifest.serverId;
+    const serverId = this.resolveServerId();
     if (!serverId) {
-      this.logger.error({}, "Server ID is required but not provided in manifest or options");
       return {
         success: false,
         resources: [],
         totalCreated: 0,
         totalUpdated: 0,
-        totalFailed: manifest.resources.length,
+        totalUnchanged: 0,
+        totalFailed: resources.length,
         totalPruned: 0,
+        totalSkipped: 0,
       };
     }
 
-    // Process each resource
-    for (const resource of manifest.resources) {
-      try {
-        // Get env vars for this specific resource
-        const envFileContent = envSecrets[resource.envSecretName];
-        let envVars: CoolifyEnvVar[] = [];
-        if (envFileContent) {
-          const parsed = parseEnvFile(envFileContent);
-          envVars = envVarsToCoolifyFormat(parsed);
-          this.logger.info(
-            { resource: resource.name, envVarCount: envVars.length },
-            "Parsed environment variables for resource",
-          );
-        } else {
-          this.logger.warn(
-            { resource: resource.name, secretName: resource.envSecretName },
-            "No environment variable content found for resource",
-          );
-        }
+    // Refuse to run before anything is created on a server the destination does not belong to
+    await this.validatePlacements(resources, serverId);
 
-        const result = await this.reconcileResource(resource, serverId, environment.uuid, environment.id, envVars);
-        results.push(result);
+    // Plan databases first so applications can reference their connection strings
+    const liveDatabases = await this.listEnvironmentDatabases(environment.id);
+    const planned: PlannedResource[] = [];
+    for (const database of databases) {
+      try {
+        planned.push(this.planDatabase(database, liveDatabases, serverId, environment));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.logger.error({ database: database.name, error: errorMessage }, "Failed to reconcile database");
+        results.push({
+          name: database.name,
+          action: "failed",
+          error: errorMessage,
+        });
+        totalFailed++;
+      }
+    }
 
-        if (result.action === "created") {
-          totalCreated++;
-        } else if (result.action === "updated") {
-          totalUpdated++;
-        } else if (result.action === "failed") {
-          totalFailed++;
-        }
+    // Plan each resource against the live state, dependencies first
+    for (const resource of orderByDependencies(resources)) {
+      try {
+        planned.push(await this.planResource(resource, serverId, environment, liveDatabases));
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         this.logger.error({ resource: resource.name, error: errorMessage }, "Failed to reconcile resource");
@@ -215,17 +343,88 @@ export class Reconciler {
       }
     }
 
-    // Prune resources
-    const prunedResources = await this.pruneResources(environment.id, manifest.resources);
-    results.push(...prunedResources);
-    totalPruned = prunedResources.length;
+    // Plan pruning of resources missing from the manifest
+    planned.push(...(await this.planPruning(environment.id, liveDatabases)));
+
+    if (savedPlan) {
+      const reasons = comparePlans(savedPlan, this.toPlan(planned));
+      if (reasons.length > 0) {
+        this.logger.error({ reasons }, "Saved plan no longer matches the live state");
+        throw new Error(`Saved plan is out of date: ${reasons.join("; ")}`);
+      }
+    }
+
+    // Each deployment is only waited for once, whether by a dependent resource or at the end
+    const deploymentWaits = new Map<string, Promise<CoolifyDeployResponse>>();
+    const waitForDeployment = (uuid: string) => {
+      if (!deploymentWaits.has(uuid)) {
+        deploymentWaits.set(uuid, this.client.waitForDeployment(uuid));
+      }
+      return deploymentWaits.get(uuid)!;
+    };
+
+    // Execute the plan, remembering database UUIDs for the connection strings of later applications
+    const databaseUuids = new Map(liveDatabases.map((database) => [database.name, database.uuid]));
+    const selectedNames = new Set(resources.map((r) => r.name));
+    const executions = new Map<string, Promise<ReconcileResourceResult>>();
+    const execute = async (item: PlannedResource): Promise<ReconcileResourceResult> => {
+      const skipReason =
+        item.kind === "application"
+          ? await this.awaitDependencies(item, executions, selectedNames, waitForDeployment)
+          : undefined;
+      if (skipReason) {
+        this.logger.warn({ resource: item.plan.name, reason: skipReason }, "Skipping resource");
+        return { name: item.plan.name, action: "skipped", uuid: item.plan.uuid, error: skipReason };
+      }
+      if (item.kind === "database") {
+        const result = await this.executeDatabase(item);
+        if (result.uuid) {
+          databaseUuids.set(result.name, result.uuid);
+        }
+        return result;
+      }
+      return this.executeResource(item, databaseUuids);
+    };
+
+    // Resources without selected dependencies run in order; dependents start as soon as their own
+    // dependencies finished deploying, without holding up the resources after them
+    const outcomes: Promise<ReconcileResourceResult>[] = [];
+    for (const item of planned) {
+      const outcome = execute(item);
+      outcomes.push(outcome);
+      if (item.kind === "application" && item.plan.action !== "prune") {
+        executions.set(item.plan.name, outcome);
+      }
+      const waitsForDependencies =
+        item.kind === "application" && (item.dependsOn ?? []).some((name) => selectedNames.has(name));
+      if (!waitsForDependencies) {
+        await outcome;
+      }
+    }
+
+    for (const result of await Promise.all(outcomes)) {
+      results.push(result);
+      if (result.action === "created") {
+        totalCreated++;
+      } else if (result.action === "updated") {
+        totalUpdated++;
+      } else if (result.action === "unchanged") {
+        totalUnchanged++;
+      } else if (result.action === "pruned") {
+        totalPruned++;
+      } else if (result.action === "failed") {
+        totalFailed++;
+      } else if (result.action === "skipped") {
+        totalSkipped++;
+      }
+    }
 
     // Wait for all deployments to finish
     const deployments = results.filter((r) => r.deploymentUuid).map((r) => ({ name: r.name, uuid: r.deploymentUuid! }));
 
     if (deployments.length > 0) {
       this.logger.info({ count: deployments.length }, "Waiting for deployments to finish...");
-      const deploymentResults = await Promise.allSettled(deployments.map((d) => this.client.waitForDeployment(d.uuid)));
+      const deploymentResults = await Promise.allSettled(deployments.map((d) => waitForDeployment(d.uuid)));
 
       let deploymentFailures = 0;
       deploymentResults.forEach((result, index) => {
@@ -257,56 +456,627 @@ export class Reconciler {
       }
     }
 
-    const success = totalFailed === 0;
-    this.logger.info({ success, totalCreated, totalUpdated, totalFailed, totalPruned }, "Reconciliation complete");
+    const success = totalFailed === 0 && totalSkipped === 0;
+    this.logger.info(
+      { success, totalCreated, totalUpdated, totalUnchanged, totalFailed, totalPruned, totalSkipped },
+      "Reconciliation complete",
+    );
 
     return {
       success,
       resources: results,
       totalCreated,
       totalUpdated,
+      totalUnchanged,
       totalFailed,
       totalPruned,
+      totalSkipped,
     };
   }
 
   /**
-   * Reconciles environment variables for an application.
-   * Prunes variables that are not present in the desired list.
+   * Waits for the execution and deployment of the selected resources a resource depends on.
+   * Dependencies left out of the selection are assumed to be deployed already.
+   * Returns why the resource has to be skipped, or undefined when every dependency succeeded.
    */
-  private async reconcileEnvironmentVariables(appUuid: string, desiredEnvVars: CoolifyEnvVar[]): Promise<void> {
-    // 1. List current env vars
-    const currentEnvVars = await this.client.listEnvironmentVariables(appUuid);
-
-    // 2. Identify env vars to delete
-    const desiredKeys = new Set(desiredEnvVars.map((e) => e.key));
-    // We only delete variables that are NOT in the desired list.
-    // We filter out variables that are marked as preview-only if we are not deploying a preview?
-    // For now, we assume strict reconciliation: if it's not in the manifest, it goes.
-    const varsToDelete = currentEnvVars.filter((e) => !desiredKeys.has(e.key));
-
-    if (varsToDelete.length > 0) {
-      this.logger.info({ appUuid, count: varsToDelete.length }, "Pruning environment variables");
-      for (const envVar of varsToDelete) {
-        await this.client.deleteEnvironmentVariable(appUuid, envVar.uuid);
+  private async awaitDependencies(
+    planned: PlannedApplication,
+    executions: Map<string, Promise<ReconcileResourceResult>>,
+    selectedNames: Set<string>,
+    waitForDeployment: (uuid: string) => Promise<CoolifyDeployResponse>,
+  ): Promise<string | undefined> {
+    for (const dependency of (planned.dependsOn ?? []).filter((name) => selectedNames.has(name))) {
+      const result = await executions.get(dependency);
+      if (!result || result.action === "failed" || result.action === "skipped") {
+        return `Dependency '${dependency}' did not succeed`;
+      }
+      if (result.deploymentUuid) {
+        this.logger.info({ resource: planned.plan.name, dependency }, "Waiting for dependency to deploy");
+        try {
+          await waitForDeployment(result.deploymentUuid);
+        } catch {
+          return `Deployment of dependency '${dependency}' failed`;
+        }
       }
     }
+    return undefined;
+  }
 
-    // 3. Update/Add desired env vars
-    if (desiredEnvVars.length > 0) {
-      await this.client.updateEnvironmentVariables(appUuid, desiredEnvVars);
+  /**
+   * Returns the resources and databases to reconcile. With a partial selection, only the databases
+   * referenced by selected resources are reconciled so their connection strings can be resolved.
+   * @throws {Error} if the selection names unknown resources or matches none
+   */
+  private selectTargets(): { resources: ManifestResource[]; databases: Database[] } {
+    const { manifest, selection } = this.options;
+    if (!isPartialSelection(selection)) {
+      return { resources: manifest.resources, databases: manifest.databases ?? [] };
     }
+    const resources = selectResources(manifest.resources, selection);
+    const referenced = new Set(resources.flatMap((r) => Object.values(r.databaseUrls ?? {})));
+    return { resources, databases: (manifest.databases ?? []).filter((d) => referenced.has(d.name)) };
   }
 
   /**
-   * Prunes resources that are present in the environment but not in the manifest.
+   * Plans pruning of applications and databases missing from the manifest.
+   * Nothing is pruned when only part of the manifest is selected, so a partial apply never deletes
+   * the resources it left out.
    */
-  private async pruneResources(
-    environmentId: number,
-    manifestResources: Resource[],
-  ): Promise<ReconcileResourceResult[]> {
-    const results: ReconcileResourceResult[] = [];
+  private async planPruning(environmentId: number, liveDatabases: CoolifyDatabase[]): Promise<PlannedResource[]> {
+    if (isPartialSelection(this.options.selection)) {
+      this.logger.info({}, "Pruning is disabled because only part of the manifest is selected");
+      return [];
+    }
+    return [
+      ...(await this.planPrune(environmentId, this.options.manifest.resources)),
+      ...this.planDatabasePrune(liveDatabases),
+    ];
+  }
+
+  /**
+   * Fingerprints live or desired state for a plan, keyed with `fingerprintKey` when one is set.
+   */
+  private fingerprint(value: unknown): string {
+    return fingerprint(value, this.options.fingerprintKey);
+  }
+
+  /**
+   * Looks up the manifest's target environment, logging if it does not exist.
+   */
+  private async resolveEnvironment(): Promise<CoolifyEnvironment | null> {
+    const { manifest } = this.options;
+    const environment = await this.client.findEnvironmentByName(manifest.projectId, manifest.environmentName);
+
+    if (!environment) {
+      this.logger.error(
+        {
+          projectId: manifest.projectId,
+          environmentName: manifest.environmentName,
+        },
+        "Target environment does not exist in Coolify project",
+      );
+    }
+
+    return environment;
+  }
+
+  /**
+   * Determines the server UUID, preferring the explicit option over the manifest.
+   */
+  private resolveServerId(): string | null {
+    const serverId = this.options.serverId ?? this.options.manifest.serverId;
+    if (!serverId) {
+      this.logger.error({}, "Server ID is required but not provided in manifest or options");
+      return null;
+    }
+    return serverId;
+  }
+
+  /**
+   * Determines where a resource is created. Resource values override the manifest and `serverId` option.
+   */
+  private resolvePlacement(resource: ManifestResource, serverId: string): { serverId: string; destinationId: string } {
+    return {
+      serverId: resource.serverId ?? serverId,
+      destinationId: resource.destinationId ?? this.options.manifest.destinationId,
+    };
+  }
+
+  /**
+   * Checks the servers resources are created on before anything is changed:
+   * - resources placed on their own server or destination must reference an existing server and
+   *   a destination on that server. Destinations are known from the applications using them, so a
+   *   destination no application uses yet cannot be checked and is only logged.
+   * - resources with swarm fields must target a server that is a swarm manager.
+   * @throws {Error} listing every invalid placement
+   */
+  private async validatePlacements(resources: ManifestResource[], serverId: string): Promise<void> {
+    const placed = resources.filter((r) => r.serverId !== undefined || r.destinationId !== undefined);
+    const swarm = resources.filter(
+      (r) => r.type !== "compose" && (r.replicas !== undefined || r.placementConstraints !== undefined),
+    );
+    if (placed.length === 0 && swarm.length === 0) {
+      return;
+    }
+
+    const servers = await this.client.listServers();
+    const destinations = new Map<string, CoolifyDestination>();
+    if (placed.length > 0) {
+      for (const app of await this.client.listApplications()) {
+        if (app.destination?.uuid) {
+          destinations.set(app.destination.uuid, app.destination);
+        }
+      }
+    }
+
+    const problems: string[] = [];
+    for (const resource of new Set([...placed, ...swarm])) {
+      const placement = this.resolvePlacement(resource, serverId);
+      const server = servers.find((s) => s.uuid === placement.serverId);
+      if (!server) {
+        problems.push(`Server '${placement.serverId}' for resource '${resource.name}' does not exist`);
+        continue;
+      }
+
+      if (swarm.includes(resource) && !server.settings?.is_swarm_manager) {
+        problems.push(
+          `Resource '${resource.name}' sets replicas or placementConstraints, but server '${server.name}' is not a swarm manager`,
+        );
+      }
+
+      if (!placed.includes(resource)) {
+        continue;
+      }
+      const destination = destinations.get(placement.destinationId);
+      if (!destination) {
+        problems.push(
+          `Destination '${placement.destinationId}' for resource '${resource.name}' could not be verified on server '${server.name}'. Coolify only reports destinations that hold an application, so create the first application on it in Coolify`,
+        );
+      } else if (destination.server_id !== server.id) {
+        const owner = servers.find((s) => s.id === destination.server_id);
+        problems.push(
+          `Destination '${placement.destinationId}' for resource '${resource.name}' belongs to server '${owner?.name ?? destination.server_id}', not '${server.name}'`,
+        );
+      }
+    }
+
+    if (problems.length > 0) {
+      this.logger.error({ problems }, "Invalid resource placement");
+      throw new Error(`Invalid resource placement: ${problems.join("; ")}`);
+    }
+  }
+
+  /**
+   * Parses the env secret configured for a resource into Coolify env vars.
+   * Database connection strings override variables of the same name.
+   */
+  private resolveEnvVars(resource: ManifestResource, databaseUrls: Record<string, string> = {}): CoolifyEnvVar[] {
+    const { envSecrets = {} } = this.options;
+    const envFileContent = envSecrets[resource.envSecretName];
+    const envFlags = resource.envFlags ?? {};
+
+    if (!envFileContent) {
+      this.logger.warn(
+        { resource: resource.name, secretName: resource.envSecretName },
+        "No environment variable content found for resource",
+      );
+      return this.toCoolifyEnvVars(resource, databaseUrls, envFlags);
+    }
+
+    const { values, quotes, flags: annotated, warnings } = parseDotenv(envFileContent);
+    for (const warning of warnings) {
+      this.logger.warn(
+        { resource: resource.name, secretName: resource.envSecretName, line: warning.line },
+        warning.reason,
+      );
+    }
+
+    // Flags from the manifest override the annotations in the env file
+    const flags = { ...annotated };
+    for (const [key, keyFlags] of Object.entries(envFlags)) {
+      flags[key] = { ...annotated[key], ...keyFlags };
+    }
+
+    const expansion = expandEnvVars(
+      values,
+      [this.resolveSharedEnvVars(), this.options.processEnv ?? {}],
+      singleQuotedKeys(quotes),
+    );
+    for (const issue of expansion.issues) {
+      if (flags[issue.key]?.literal !== false) {
+        this.logger.warn(
+          { resource: resource.name, key: issue.key },
+          `${issue.reason}, the reference is sent as written`,
+        );
+      }
+    }
+
+    // Variables Coolify interpolates are sent as written
+    const expanded = Object.fromEntries(
+      Object.entries(expansion.values).map(([key, value]) => [
+        key,
+        flags[key]?.literal === false ? values[key] : value,
+      ]),
+    );
+
+    const envVars = this.toCoolifyEnvVars(resource, { ...expanded, ...databaseUrls }, flags);
+    this.logger.info(
+      { resource: resource.name, envVarCount: envVars.length },
+      "Parsed environment variables for resource",
+    );
+    return envVars;
+  }
+
+  /**
+   * Converts resolved env vars to Coolify format, warning about `envFlags` entries for undefined variables.
+   */
+  private toCoolifyEnvVars(
+    resource: ManifestResource,
+    envVars: Record<string, string>,
+    flags: Record<string, EnvVarFlags>,
+  ): CoolifyEnvVar[] {
+    for (const key of Object.keys(resource.envFlags ?? {})) {
+      if (!Object.hasOwn(envVars, key)) {
+        this.logger.warn({ resource: resource.name, key }, "envFlags sets flags for an env var that is not defined");
+      }
+    }
+    return envVarsToCoolifyFormat(envVars, flags);
+  }
+
+  /**
+   * Parses the manifest's shared env file, which env var references of every resource can use.
+   * It is read once, and its own references are expanded against itself and the process env.
+   */
+  private resolveSharedEnvVars(): Record<string, string> {
+    if (this.sharedEnvVars) {
+      return this.sharedEnvVars;
+    }
+    const { manifest, envSecrets = {}, processEnv = {} } = this.options;
+    const content = envSecrets[manifest.envFileSecretName];
+    if (!content) {
+      this.sharedEnvVars = {};
+      return this.sharedEnvVars;
+    }
+
+    const { values, quotes, warnings } = parseDotenv(content);
+    for (const warning of warnings) {
+      this.logger.warn({ secretName: manifest.envFileSecretName, line: warning.line }, warning.reason);
+    }
+    const expansion = expandEnvVars(values, [processEnv], singleQuotedKeys(quotes));
+    for (const issue of expansion.issues) {
+      this.logger.warn({ secretName: manifest.envFileSecretName, key: issue.key }, issue.reason);
+    }
+    this.sharedEnvVars = expansion.values;
+    return this.sharedEnvVars;
+  }
+
+  /**
+   * Builds the connection strings a resource references in `databaseUrls`.
+   * Databases that do not exist yet get a placeholder host and are listed as pending.
+   */
+  private resolveDatabaseUrls(
+    resource: ManifestResource,
+    liveDatabases: CoolifyDatabase[],
+  ): { urls: Record<string, string>; pending: Record<string, string> } {
+    const { manifest, envSecrets = {} } = this.options;
+    const urls: Record<string, string> = {};
+    const pending: Record<string, string> = {};
+
+    for (const [key, name] of Object.entries(resource.databaseUrls ?? {})) {
+      const database = manifest.databases?.find((d) => d.name === name);
+      if (!database) {
+        throw new Error(`Unknown database '${name}'`);
+      }
+      const uuid = liveDatabases.find((d) => d.name === name)?.uuid;
+      if (!uuid) {
+        pending[key] = name;
+      }
+      urls[key] = buildDatabaseUrl(database, uuid ?? PENDING_DATABASE_UUID, envSecrets);
+    }
+
+    return { urls, pending };
+  }
+
+  /**
+   * Replaces the placeholder connection strings of databases created in this run.
+   * @throws {Error} if a referenced database was not created
+   */
+  private fillPendingDatabaseUrls(planned: PlannedApplication, databaseUuids: Map<string, string>): void {
+    const { manifest, envSecrets = {} } = this.options;
+    const urls = new Map<string, string>();
+
+    for (const [key, name] of Object.entries(planned.pendingDatabaseUrls ?? {})) {
+      const database = manifest.databases?.find((d) => d.name === name);
+      const uuid = databaseUuids.get(name);
+      if (!database || !uuid) {
+        throw new Error(`Database '${name}' referenced by ${key} was not created`);
+      }
+      urls.set(key, buildDatabaseUrl(database, uuid, envSecrets));
+    }
+
+    const fill = (envVar: CoolifyEnvVar) =>
+      urls.has(envVar.key) ? { ...envVar, value: urls.get(envVar.key)! } : envVar;
+    planned.envVars = planned.envVars.map(fill);
+    if (planned.envVarDiff) {
+      planned.envVarDiff.added = planned.envVarDiff.added.map(fill);
+      planned.envVarDiff.changed = planned.envVarDiff.changed.map(fill);
+    }
+  }
+
+  /**
+   * Lists the databases in the target environment. Databases are only looked up when the manifest manages them.
+   */
+  private async listEnvironmentDatabases(environmentId: number): Promise<CoolifyDatabase[]> {
+    if (!this.options.manifest.databases) {
+      return [];
+    }
+    const databases = await this.client.listDatabases();
+    return databases.filter((database) => database.environment_id === environmentId);
+  }
+
+  /**
+   * Reads the compose file of a compose resource, relative to the manifest directory.
+   */
+  private async readComposeFile(resource: ComposeResource): Promise<string> {
+    const path = resolve(this.options.baseDir ?? process.cwd(), resource.composeFile);
+    try {
+      return await readFile(path, "utf-8");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Cannot read compose file '${resource.composeFile}': ${message}`);
+    }
+  }
+
+  /**
+   * Builds a plan from planned resources.
+   */
+  private toPlan(planned: PlannedResource[]): Plan {
+    const { manifest, dockerTag } = this.options;
+    return {
+      version: 1,
+      createdAt: new Date().toISOString(),
+      projectId: manifest.projectId,
+      environmentName: manifest.environmentName,
+      dockerTag,
+      resources: planned.map((p) => p.plan),
+    };
+  }
+
+  /**
+   * Determines the action for a single resource by comparing it against the live state.
+   * Only reads from Coolify.
+   */
+  private async planResource(
+    resource: ManifestResource,
+    serverId: string,
+    environment: CoolifyEnvironment,
+    liveDatabases: CoolifyDatabase[],
+  ): Promise<PlannedApplication> {
+    const { name } = resource;
+    const { manifest, dockerTag, envSecrets = {}, force = false } = this.options;
+
+    this.logger.info({ resource: name, dockerTag }, "Reconciling resource");
 
+    const databaseUrls = this.resolveDatabaseUrls(resource, liveDatabases);
+    const envVars = this.resolveEnvVars(resource, databaseUrls.urls);
+    const pendingDatabaseUrls = Object.keys(databaseUrls.pending).length > 0 ? databaseUrls.pending : undefined;
+    const composeRaw = resource.type === "compose" ? await this.readComposeFile(resource) : "";
+
+    // Try to find existing application
+    const existingApp = await this.client.findApplicationByName(name, environment.id);
+
+    if (!existingApp) {
+      const placement = this.resolvePlacement(resource, serverId);
+      const createOptions =
+        resource.type === "compose"
+          ? CoolifyClient.buildComposeCreateOptions(
+              resource,
+              composeRaw,
+              manifest.projectId,
+              placement.serverId,
+              manifest.environmentName,
+              environment.uuid,
+              placement.destinationId,
+            )
+          : CoolifyClient.buildCreateOptions(
+              resource,
+              manifest.projectId,
+              placement.serverId,
+              manifest.environmentName,
+              environment.uuid,
+              placement.destinationId,
+              dockerTag,
+              envSecrets,
+            );
+      // Compose service domains can only be set once the application exists
+      const patch =
+        resource.type === "compose" && resource.serviceDomains
+          ? { docker_compose_domains: serializeComposeDomains(resource.serviceDomains) }
+          : undefined;
+      const storages =
+        resource.type !== "compose" && resource.storages
+          ? CoolifyClient.buildStorageOptions(resource.storages)
+          : undefined;
+      const scheduledTasks =
+        resource.scheduledTasks && CoolifyClient.buildScheduledTaskOptions(resource.scheduledTasks);
+      return {
+        kind: "application",
+        plan: {
+          name,
+          action: "create",
+          changes: [],
+          envVars: { added: envVars.map((e) => e.key), changed: [], removed: [] },
+          storages: storages && { added: storages.map((s) => s.mount_path), changed: [], removed: [] },
+          scheduledTasks: scheduledTasks && { added: scheduledTasks.map((t) => t.name), changed: [], removed: [] },
+          deploy: true,
+          liveHash: null,
+          desiredHash: this.fingerprint({ options: createOptions, patch, envVars, storages, scheduledTasks }),
+        },
+        envVars,
+        createOptions,
+        storages,
+        scheduledTasks,
+        patch,
+        pendingDatabaseUrls,
+        dependsOn: resource.dependsOn,
+      };
+    }
+
+    // App exists, compare it against the desired state
+    const updateOptions =
+      resource.type === "compose"
+        ? CoolifyClient.buildComposeUpdateOptions(resource, composeRaw)
+        : CoolifyClient.buildUpdateOptions(resource, dockerTag, envSecrets);
+    const changes = diffApplication(existingApp, updateOptions);
+    const currentEnvVars = await this.client.listEnvironmentVariables(existingApp.uuid);
+    const envVarDiff = diffEnvironmentVariables(currentEnvVars, envVars);
+    const storages =
+      resource.type !== "compose" && resource.storages
+        ? CoolifyClient.buildStorageOptions(resource.storages)
+        : undefined;
+    const currentStorages = storages ? await this.client.listStorages(existingApp.uuid) : undefined;
+    const storageDiff = storages && currentStorages ? this.planStorages(name, currentStorages, storages) : undefined;
+    const scheduledTasks = resource.scheduledTasks && CoolifyClient.buildScheduledTaskOptions(resource.scheduledTasks);
+    const currentScheduledTasks = scheduledTasks ? await this.client.listScheduledTasks(existingApp.uuid) : undefined;
+    const scheduledTaskDiff =
+      scheduledTasks && currentScheduledTasks ? diffScheduledTasks(currentScheduledTasks, scheduledTasks) : undefined;
+    const modified =
+      changes.length > 0 ||
+      hasEnvVarChanges(envVarDiff) ||
+      (storageDiff !== undefined && hasStorageChanges(storageDiff)) ||
+      (scheduledTaskDiff !== undefined && hasScheduledTaskChanges(scheduledTaskDiff));
+    const reason = modified || force ? undefined : redeployReason(resource, dockerTag);
+    if (reason) {
+      this.logger.info({ resource: name }, reason);
+    }
+    const action = modified || force || reason ? "update" : "unchanged";
+
+    return {
+      kind: "application",
+      plan: {
+        name,
+        action,
+        uuid: existingApp.uuid,
+        changes: redactChanges(changes),
+        envVars: {
+          added: envVarDiff.added.map((e) => e.key),
+          changed: envVarDiff.changed.map((e) => e.key),
+          removed: envVarDiff.removed.map((e) => e.key),
+        },
+        storages: storageDiff && {
+          added: storageDiff.added.map((s) => s.mount_path),
+          changed: storageDiff.changed.map((s) => s.mount_path!),
+          removed: storageDiff.removed.map((s) => s.mount_path),
+        },
+        scheduledTasks: scheduledTaskDiff && {
+          added: scheduledTaskDiff.added.map((t) => t.name),
+          changed: scheduledTaskDiff.changed.map((t) => t.name),
+          removed: scheduledTaskDiff.removed.map((t) => t.name),
+        },
+        deploy: action === "update",
+        liveHash: this.fingerprint({
+          fields: pickLiveFields(existingApp, updateOptions),
+          envVars: currentEnvVars,
+          storages: currentStorages,
+          scheduledTasks: currentScheduledTasks,
+        }),
+        desiredHash: this.fingerprint({ options: updateOptions, envVars, storages, scheduledTasks }),
+      },
+      envVars,
+      envVarDiff,
+      storageDiff,
+      scheduledTaskDiff,
+      patch: buildPatchOptions(changes),
+      pendingDatabaseUrls,
+      dependsOn: resource.dependsOn,
+    };
+  }
+
+  /**
+   * Determines the action for a database by comparing it against the live databases.
+   * Credentials are only sent on creation, so changing them in the manifest does not update the database.
+   */
+  private planDatabase(
+    database: Database,
+    liveDatabases: CoolifyDatabase[],
+    serverId: string,
+    environment: CoolifyEnvironment,
+  ): PlannedDatabase {
+    const { manifest, envSecrets = {} } = this.options;
+    const emptyEnvVars = { added: [], changed: [], removed: [] };
+    const existing = liveDatabases.find((d) => d.name === database.name);
+
+    if (!existing) {
+      const createOptions = CoolifyClient.buildDatabaseCreateOptions(
+        database,
+        manifest.projectId,
+        serverId,
+        manifest.environmentName,
+        environment.uuid,
+        manifest.destinationId,
+        envSecrets,
+      );
+      return {
+        kind: "database",
+        plan: {
+          name: database.name,
+          action: "create",
+          changes: [],
+          envVars: emptyEnvVars,
+          deploy: false,
+          liveHash: null,
+          desiredHash: this.fingerprint({ options: createOptions }),
+        },
+        database,
+        createOptions,
+      };
+    }
+
+    const updateOptions = CoolifyClient.buildDatabaseUpdateOptions(database);
+    const changes = diffDatabase(existing, updateOptions);
+    return {
+      kind: "database",
+      plan: {
+        name: database.name,
+        action: changes.length > 0 ? "update" : "unchanged",
+        uuid: existing.uuid,
+        changes,
+        envVars: emptyEnvVars,
+        deploy: false,
+        liveHash: this.fingerprint({ uuid: existing.uuid, changes }),
+        desiredHash: this.fingerprint({ options: updateOptions }),
+      },
+      database,
+      patch: buildPatchOptions<CoolifyUpdateDatabaseOptions>(changes),
+    };
+  }
+
+  /**
+   * Plans pruning of databases that are present in the environment but not in the manifest.
+   */
+  private planDatabasePrune(liveDatabases: CoolifyDatabase[]): PlannedDatabase[] {
+    const manifestNames = new Set((this.options.manifest.databases ?? []).map((d) => d.name));
+    return liveDatabases
+      .filter((database) => !manifestNames.has(database.name))
+      .map((database) => ({
+        kind: "database",
+        plan: {
+          name: database.name,
+          action: "prune",
+          uuid: database.uuid,
+          changes: [],
+          envVars: { added: [], changed: [], removed: [] },
+          deploy: false,
+          liveHash: this.fingerprint({ uuid: database.uuid, name: database.name }),
+          desiredHash: null,
+        },
+      }));
+  }
+
+  /**
+   * Plans pruning of resources that are present in the environment but not in the manifest.
+   */
+  private async planPrune(environmentId: number, manifestResources: ManifestResource[]): Promise<PlannedApplication[]> {
     // 1. List all applications
     const allApps = await this.client.listApplications();
 
@@ -317,103 +1087,275 @@ export class Reconciler {
     const manifestAppNames = new Set(manifestResources.map((r) => r.name));
     const appsToDelete = envApps.filter((app) => !manifestAppNames.has(app.name));
 
-    if (appsToDelete.length > 0) {
-      this.logger.info({ count: appsToDelete.length }, "Pruning resources");
-      for (const app of appsToDelete) {
-        this.logger.info({ app: app.name, uuid: app.uuid }, "Deleting resource");
-        await this.client.deleteApplication(app.uuid);
-        results.push({
-          name: app.name,
-          action: "pruned",
-          uuid: app.uuid,
-        });
+    return appsToDelete.map((app) => ({
+      kind: "application",
+      plan: {
+        name: app.name,
+        action: "prune",
+        uuid: app.uuid,
+        changes: [],
+        envVars: { added: [], changed: [], removed: [] },
+        deploy: false,
+        liveHash: this.fingerprint({ uuid: app.uuid, name: app.name }),
+        desiredHash: null,
+      },
+      envVars: [],
+    }));
+  }
+
+  /**
+   * Compares the desired storages against the live ones. Live storages missing from the manifest are only
+   * planned for deletion with `pruneStorage`, since deleting a volume deletes its data.
+   */
+  private planStorages(name: string, current: CoolifyStorage[], desired: CoolifyCreateStorageOptions[]): StorageDiff {
+    const diff = diffStorages(current, desired);
+
+    for (const change of diff.changed) {
+      const live = current.find((s) => s.uuid === change.uuid)!;
+      if (!change.host_path && !live.host_path && live.name !== change.name) {
+        this.logger.warn(
+          { resource: name, mountPath: change.mount_path, from: live.name, to: change.name },
+          "Renaming a volume mounts a new, empty volume; the old volume and its data are kept but no longer mounted",
+        );
       }
     }
 
-    return results;
+    if (this.options.pruneStorage) {
+      return diff;
+    }
+    for (const storage of diff.removed) {
+      this.logger.warn(
+        { resource: name, storage: storage.name, mountPath: storage.mount_path },
+        "Storage is not in the manifest and is kept. Use --prune-storage to delete it.",
+      );
+    }
+    return { ...diff, removed: [] };
   }
 
   /**
-   * Reconciles a single resource.
+   * Applies a storage diff to an application: creates added storages, updates changed ones
+   * and deletes the removed ones.
    */
-  private async reconcileResource(
-    resource: Resource,
-    serverId: string,
-    environmentUuid: string,
-    environmentId: number,
-    envVars: CoolifyEnvVar[],
-  ): Promise<ReconcileResourceResult> {
-    const { name } = resource;
-    const { manifest, dockerTag } = this.options;
+  private async reconcileStorages(appUuid: string, diff: StorageDiff): Promise<void> {
+    for (const storage of diff.removed) {
+      this.logger.warn({ appUuid, storage: storage.name, mountPath: storage.mount_path }, "Deleting storage");
+      await this.client.deleteStorage(appUuid, storage.uuid);
+    }
+    for (const storage of diff.changed) {
+      await this.client.updateStorage(appUuid, storage);
+    }
+    for (const storage of diff.added) {
+      await this.client.createStorage(appUuid, storage);
+    }
+  }
 
-    this.logger.info({ resource: resource.name, dockerTag }, "Reconciling resource");
+  /**
+   * Applies a scheduled task diff to an application.
+   * Deletes tasks that are not in the manifest and writes only added or changed ones.
+   */
+  private async reconcileScheduledTasks(appUuid: string, diff: ScheduledTaskDiff): Promise<void> {
+    if (diff.removed.length > 0) {
+      this.logger.info({ appUuid, count: diff.removed.length }, "Pruning scheduled tasks");
+      for (const task of diff.removed) {
+        await this.client.deleteScheduledTask(appUuid, task.uuid);
+      }
+    }
 
-    // Try to find existing application
-    const existingApp = await this.client.findApplicationByName(name, environmentId);
+    for (const { uuid, ...task } of diff.changed) {
+      await this.client.updateScheduledTask(appUuid, uuid, task);
+    }
+    for (const task of diff.added) {
+      await this.client.createScheduledTask(appUuid, task);
+    }
+  }
+
+  /**
+   * Applies an environment variable diff to an application.
+   * Prunes variables that are not present in the desired list and writes only added or changed ones.
+   */
+  private async reconcileEnvironmentVariables(appUuid: string, diff: EnvVarDiff): Promise<void> {
+    // We assume strict reconciliation: if it's not in the manifest, it goes.
+    if (diff.removed.length > 0) {
+      this.logger.info({ appUuid, count: diff.removed.length }, "Pruning environment variables");
+      for (const envVar of diff.removed) {
+        await this.client.deleteEnvironmentVariable(appUuid, envVar.uuid);
+      }
+    }
+
+    const envVarsToWrite = [...diff.added, ...diff.changed];
+    if (envVarsToWrite.length > 0) {
+      await this.client.updateEnvironmentVariables(appUuid, envVarsToWrite);
+    }
+  }
+
+  /**
+   * Executes the planned action for a single resource.
+   */
+  private async executeResource(
+    planned: PlannedApplication,
+    databaseUuids: Map<string, string>,
+  ): Promise<ReconcileResourceResult> {
+    const { plan } = planned;
+    const { name } = plan;
 
     try {
-      if (existingApp) {
-        // App exists, update it
-        this.logger.info({ app: name }, `Application already exists, updating...`);
-        const updateOptions = CoolifyClient.buildUpdateOptions(resource, dockerTag);
-        await this.client.updateApplication(existingApp.uuid, updateOptions);
-
-        // Reconcile env vars (prune and update)
-        await this.reconcileEnvironmentVariables(existingApp.uuid, envVars);
-
-        // Trigger deployment
-        const deploymentUuid = await this.client.deployApplication(existingApp.uuid);
-        if (deploymentUuid) {
-          this.logger.info({ app: name, deploymentUuid }, "Deployment triggered");
+      if (plan.action === "create" || plan.action === "update") {
+        this.fillPendingDatabaseUrls(planned, databaseUuids);
+      }
+      const { envVars } = planned;
+
+      switch (plan.action) {
+        case "unchanged": {
+          this.logger.info({ app: name }, "Application is up to date, skipping deployment");
+          return { name, action: "unchanged", uuid: plan.uuid };
         }
 
-        return {
-          name: name,
-          action: "updated",
-          uuid: existingApp.uuid,
-          deploymentUuid: deploymentUuid ?? undefined,
-        };
-      } else {
-        // App doesn't exist, create it
-        this.logger.info({ app: name }, `Application does not exist, creating...`);
-
-        const createOptions = CoolifyClient.buildCreateOptions(
-          resource,
-          manifest.projectId,
-          serverId,
-          manifest.environmentName,
-          environmentUuid,
-          manifest.destinationId,
-          dockerTag,
-        );
-        const newApp = await this.client.createDockerImageApplication(createOptions);
+        case "prune": {
+          this.logger.info({ app: name, uuid: plan.uuid }, "Deleting resource");
+          await this.client.deleteApplication(plan.uuid!);
+          return { name, action: "pruned", uuid: plan.uuid };
+        }
+
+        case "update": {
+          const uuid = plan.uuid!;
+          this.logger.info(
+            {
+              app: name,
+              changedFields: plan.changes.map((c) => c.field),
+              envVarsAdded: plan.envVars.added.length,
+              envVarsChanged: plan.envVars.changed.length,
+              envVarsRemoved: plan.envVars.removed.length,
+            },
+            `Application already exists, updating...`,
+          );
+
+          if (plan.changes.length > 0) {
+            await this.client.updateApplication(uuid, planned.patch!);
+          }
+
+          // Reconcile env vars (prune and update)
+          if (planned.envVarDiff) {
+            await this.reconcileEnvironmentVariables(uuid, planned.envVarDiff);
+          }
 
-        // Update env vars if they are provided
-        if (envVars.length > 0) {
-          await this.client.updateEnvironmentVariables(newApp.uuid, envVars);
+          if (planned.storageDiff) {
+            await this.reconcileStorages(uuid, planned.storageDiff);
+          }
+
+          if (planned.scheduledTaskDiff) {
+            await this.reconcileScheduledTasks(uuid, planned.scheduledTaskDiff);
+          }
+
+          const deploymentUuid = await this.deploy(name, uuid);
+          return { name, action: "updated", uuid, deploymentUuid };
+        }
+
+        case "create": {
+          this.logger.info({ app: name }, `Application does not exist, creating...`);
+          const newApp = await this.createApplication(planned.createOptions!);
+
+          if (planned.patch) {
+            await this.client.updateApplication(newApp.uuid, planned.patch);
+          }
+
+          for (const storage of planned.storages ?? []) {
+            await this.client.createStorage(newApp.uuid, storage);
+          }
+
+          for (const task of planned.scheduledTasks ?? []) {
+            await this.client.createScheduledTask(newApp.uuid, task);
+          }
+
+          // Update env vars if they are provided
+          if (envVars.length > 0) {
+            await this.client.updateEnvironmentVariables(newApp.uuid, envVars);
+          }
+
+          const deploymentUuid = await this.deploy(name, newApp.uuid);
+          return { name, action: "created", uuid: newApp.uuid, deploymentUuid };
+        }
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error({ resource: name, error: errorMessage }, "Failed to reconcile resource");
+      return {
+        name,
+        action: "failed",
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Executes the planned action for a single database.
+   * Updated databases are restarted so the changes take effect.
+   */
+  private async executeDatabase(planned: PlannedDatabase): Promise<ReconcileResourceResult> {
+    const { plan } = planned;
+    const { name } = plan;
+
+    try {
+      switch (plan.action) {
+        case "unchanged": {
+          this.logger.info({ database: name }, "Database is up to date");
+          return { name, action: "unchanged", uuid: plan.uuid };
+        }
+
+        case "prune": {
+          this.logger.info({ database: name, uuid: plan.uuid }, "Deleting database, keeping its volumes");
+          await this.client.deleteDatabase(plan.uuid!);
+          return { name, action: "pruned", uuid: plan.uuid };
         }
 
-        // Trigger deployment
-        const deploymentUuid = await this.client.deployApplication(newApp.uuid);
-        if (deploymentUuid) {
-          this.logger.info({ app: name, deploymentUuid }, "Deployment triggered");
+        case "update": {
+          const uuid = plan.uuid!;
+          this.logger.info(
+            { database: name, changedFields: plan.changes.map((c) => c.field) },
+            "Database already exists, updating...",
+          );
+          await this.client.updateDatabase(uuid, planned.patch!);
+          await this.client.restartDatabase(uuid);
+          return { name, action: "updated", uuid };
         }
 
-        return {
-          name: name,
-          action: "created",
-          uuid: newApp.uuid,
-          deploymentUuid: deploymentUuid ?? undefined,
-        };
+        case "create": {
+          this.logger.info({ database: name }, "Database does not exist, creating...");
+          const { uuid } = await this.client.createDatabase(planned.database!.type, planned.createOptions!);
+          return { name, action: "created", uuid };
+        }
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      this.logger.error({ resource: resource.name, error: errorMessage }, "Failed to reconcile resource");
+      this.logger.error({ database: name, error: errorMessage }, "Failed to reconcile database");
       return {
-        name: resource.name,
+        name,
         action: "failed",
         error: errorMessage,
       };
     }
   }
+
+  /**
+   * Creates an application with the client call matching its type.
+   */
+  private createApplication(options: NonNullable<PlannedApplication["createOptions"]>) {
+    if ("docker_compose_raw" in options) {
+      return this.client.createComposeApplication(options);
+    }
+    if ("git_repository" in options) {
+      return this.client.createGitApplication(options);
+    }
+    return this.client.createDockerImageApplication(options);
+  }
+
+  /**
+   * Triggers a deployment for an application.
+   */
+  private async deploy(name: string, uuid: string): Promise<string | undefined> {
+    const deploymentUuid = await this.client.deployApplication(uuid);
+    if (deploymentUuid) {
+      this.logger.info({ app: name, deploymentUuid }, "Deployment triggered");
+    }
+    return deploymentUuid ?? undefined;
+  }
 }
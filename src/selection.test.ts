@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { isPartialSelection, parseNameList, parseSelector, selectResources } from "./selection";
+
+const resources: { name: string; labels?: Record<string, string> }[] = [
+  { name: "api", labels: { team: "payments", tier: "backend" } },
+  { name: "worker", labels: { team: "payments", tier: "jobs" } },
+  { name: "web", labels: { team: "web" } },
+  { name: "docs" },
+];
+
+describe("parseNameList", () => {
+  it("should split and trim comma-separated names", () => {
+    expect(parseNameList("api, worker,,web")).toEqual(["api", "worker", "web"]);
+  });
+});
+
+describe("parseSelector", () => {
+  it("should parse key=value pairs", () => {
+    expect(parseSelector("team=payments, tier=backend")).toEqual({ team: "payments", tier: "backend" });
+  });
+
+  it("should reject parts without a key", () => {
+    expect(() => parseSelector("team")).toThrow('Invalid selector "team". Expected key=value.');
+    expect(() => parseSelector("=payments")).toThrow();
+  });
+});
+
+describe("isPartialSelection", () => {
+  it("should treat empty options as selecting everything", () => {
+    expect(isPartialSelection()).toBe(false);
+    expect(isPartialSelection({ only: [], exclude: [], selector: {} })).toBe(false);
+    expect(isPartialSelection({ exclude: ["web"] })).toBe(true);
+  });
+});
+
+describe("selectResources", () => {
+  it("should select by name", () => {
+    expect(selectResources(resources, { only: ["web", "api"] }).map((r) => r.name)).toEqual(["api", "web"]);
+  });
+
+  it("should exclude by name", () => {
+    expect(selectResources(resources, { exclude: ["web"] }).map((r) => r.name)).toEqual(["api", "worker", "docs"]);
+  });
+
+  it("should require every selector label", () => {
+    expect(selectResources(resources, { selector: { team: "payments" } }).map((r) => r.name)).toEqual([
+      "api",
+      "worker",
+    ]);
+    expect(selectResources(resources, { selector: { team: "payments", tier: "jobs" } }).map((r) => r.name)).toEqual([
+      "worker",
+    ]);
+  });
+
+  it("should combine name and label filters", () => {
+    expect(
+      selectResources(resources, { selector: { team: "payments" }, exclude: ["worker"] }).map((r) => r.name),
+    ).toEqual(["api"]);
+  });
+
+  it("should reject unknown names", () => {
+    expect(() => selectResources(resources, { only: ["api", "apii"], exclude: ["wbe"] })).toThrow(
+      "Unknown resources 'apii', 'wbe'",
+    );
+  });
+
+  it("should reject a selection that matches nothing", () => {
+    expect(() => selectResources(resources, { selector: { team: "search" } })).toThrow(
+      "No resources match the selection",
+    );
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Resources to reconcile when only part of a manifest is applied.
+ */
+export interface ResourceSelection {
+  /** Names of the only resources to reconcile */
+  only?: string[];
+  /** Names of resources to leave untouched */
+  exclude?: string[];
+  /** Labels a resource must all have to be reconciled */
+  selector?: Record<string, string>;
+}
+
+/**
+ * Returns true if the selection can leave out resources of the manifest.
+ */
+export function isPartialSelection(selection: ResourceSelection = {}): boolean {
+  return (
+    (selection.only?.length ?? 0) > 0 ||
+    (selection.exclude?.length ?? 0) > 0 ||
+    Object.keys(selection.selector ?? {}).length > 0
+  );
+}
+
+/**
+ * Parses a comma-separated list of names given on the command line.
+ */
+export function parseNameList(value: string): string[] {
+  return value
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name !== "");
+}
+
+/**
+ * Parses a label selector such as `team=payments,tier=web`. A resource must have every label to match.
+ * @throws {Error} if a part is not a `key=value` pair
+ */
+export function parseSelector(value: string): Record<string, string> {
+  const selector: Record<string, string> = {};
+  for (const part of parseNameList(value)) {
+    const index = part.indexOf("=");
+    const key = part.slice(0, index).trim();
+    if (index === -1 || key === "") {
+      throw new Error(`Invalid selector "${part}". Expected key=value.`);
+    }
+    selector[key] = part.slice(index + 1).trim();
+  }
+  return selector;
+}
+
+/**
+ * Returns the resources matched by a selection, in manifest order.
+ * @throws {Error} if `only` or `exclude` name a resource the manifest does not define, or nothing is selected
+ */
+export function selectResources<T extends { name: string; labels?: Record<string, string> }>(
+  resources: T[],
+  selection: ResourceSelection = {},
+): T[] {
+  const names = new Set(resources.map((r) => r.name));
+  const unknown = [...(selection.only ?? []), ...(selection.exclude ?? [])].filter((name) => !names.has(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown resource${unknown.length > 1 ? "s" : ""} ${unknown.map((n) => `'${n}'`).join(", ")}`);
+  }
+
+  const only = selection.only?.length ? new Set(selection.only) : undefined;
+  const exclude = new Set(selection.exclude ?? []);
+  const selector = Object.entries(selection.selector ?? {});
+  const selected = resources.filter(
+    (resource) =>
+      (!only || only.has(resource.name)) &&
+      !exclude.has(resource.name) &&
+      selector.every(([key, value]) => resource.labels?.[key] === value),
+  );
+
+  if (selected.length === 0) {
+    throw new Error("No resources match the selection");
+  }
+  return selected;
+}
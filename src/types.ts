@@ -235,6 +235,11 @@ export interface CoolifyCreateDockerImageAppOptions {
   limits_cpu_shares?: number;
   custom_labels?: string;
   custom_docker_run_options?: string;
+  custom_network_aliases?: string;
+  /** Number of swarm replicas, only used on swarm servers */
+  swarm_replicas?: number;
+  /** Base64-encoded YAML merged into the swarm service's `deploy` section */
+  swarm_placement_constraints?: string;
   post_deployment_command?: string;
   post_deployment_command_container?: string;
   pre_deployment_command?: string;
@@ -253,6 +258,43 @@ export interface CoolifyCreateDockerImageAppOptions {
   force_domain_override?: boolean;
 }
 
+/**
+ * Options for creating a new Coolify application built from a git repository.
+ * Public repositories need no credentials, private ones a GitHub App or a deploy key.
+ */
+export interface CoolifyCreateGitAppOptions extends Omit<
+  CoolifyCreateDockerImageAppOptions,
+  "docker_registry_image_name" | "docker_registry_image_tag"
+> {
+  git_repository: string;
+  git_branch: string;
+  build_pack: string;
+  github_app_uuid?: string;
+  private_key_uuid?: string;
+  git_commit_sha?: string;
+  base_directory?: string;
+  publish_directory?: string;
+  install_command?: string;
+  build_command?: string;
+  start_command?: string;
+}
+
+/**
+ * Options for creating a new Coolify Docker Compose application.
+ * `docker_compose_raw` is the base64-encoded compose file.
+ */
+export interface CoolifyCreateComposeAppOptions {
+  project_uuid: string;
+  server_uuid: string;
+  environment_name: string;
+  environment_uuid: string;
+  docker_compose_raw: string;
+  destination_uuid?: string;
+  name?: string;
+  description?: string;
+  instant_deploy?: boolean;
+}
+
 /**
  * Options for updating an existing Coolify application.
  */
@@ -300,6 +342,11 @@ export interface CoolifyUpdateAppOptions {
   limits_cpu_shares?: number;
   custom_labels?: string;
   custom_docker_run_options?: string;
+  custom_network_aliases?: string;
+  /** Number of swarm replicas, only used on swarm servers */
+  swarm_replicas?: number;
+  /** Base64-encoded YAML merged into the swarm service's `deploy` section */
+  swarm_placement_constraints?: string;
   post_deployment_command?: string;
   post_deployment_command_container?: string;
   pre_deployment_command?: string;
@@ -318,6 +365,9 @@ export interface CoolifyUpdateAppOptions {
   docker_compose_domains?: string;
   watch_paths?: string;
   use_build_server?: boolean;
+  is_http_basic_auth_enabled?: boolean;
+  http_basic_auth_username?: string;
+  http_basic_auth_password?: string;
   connect_to_docker_network?: boolean;
   force_domain_override?: boolean;
 }
@@ -329,6 +379,74 @@ export interface CoolifyCreateUpdateAppResponse {
   uuid: string;
 }
 
+/**
+ * Database engines supported by the Coolify database endpoints.
+ */
+export type CoolifyDatabaseType = "postgresql" | "mysql" | "redis";
+
+/**
+ * Coolify Database response structure.
+ */
+export interface CoolifyDatabase {
+  id: number;
+  uuid: string;
+  name: string;
+  description: string | null;
+  database_type: string;
+  image: string;
+  is_public: boolean;
+  public_port: number | null;
+  limits_memory: string | null;
+  limits_memory_swap: string | null;
+  limits_memory_swappiness: number | null;
+  limits_memory_reservation: string | null;
+  limits_cpus: string | null;
+  limits_cpuset: string | null;
+  limits_cpu_shares: number | null;
+  status: string | null;
+  environment_id: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Options for updating an existing Coolify database.
+ */
+export interface CoolifyUpdateDatabaseOptions {
+  name?: string;
+  description?: string;
+  image?: string;
+  is_public?: boolean;
+  public_port?: number;
+  limits_memory?: string;
+  limits_memory_swap?: string;
+  limits_memory_swappiness?: number;
+  limits_memory_reservation?: string;
+  limits_cpus?: string;
+  limits_cpuset?: string;
+  limits_cpu_shares?: number;
+}
+
+/**
+ * Options for creating a new Coolify database. Only the credentials of the chosen engine apply.
+ */
+export interface CoolifyCreateDatabaseOptions extends CoolifyUpdateDatabaseOptions {
+  project_uuid: string;
+  server_uuid: string;
+  environment_name: string;
+  environment_uuid: string;
+  destination_uuid?: string;
+  instant_deploy?: boolean;
+  postgres_user?: string;
+  postgres_password?: string;
+  postgres_db?: string;
+  mysql_root_password?: string;
+  mysql_user?: string;
+  mysql_password?: string;
+  mysql_database?: string;
+  redis_password?: string;
+}
+
 /**
  * Coolify Environment response structure.
  */
@@ -348,6 +466,10 @@ export interface CoolifyEnvVar {
   is_literal?: boolean;
   is_multiline?: boolean;
   is_shown_once?: boolean;
+  /** Whether the variable is available while building */
+  is_buildtime?: boolean;
+  /** Whether the variable is available to the running container */
+  is_runtime?: boolean;
 }
 
 /**
@@ -357,6 +479,77 @@ export interface CoolifyEnvVarResponse extends CoolifyEnvVar {
   uuid: string;
 }
 
+/**
+ * Coolify persistent storage structure: a named Docker volume, or a bind mount when `host_path` is set.
+ */
+export interface CoolifyStorage {
+  id: number;
+  uuid: string;
+  name: string;
+  mount_path: string;
+  host_path: string | null;
+  resource_id: number;
+  resource_type: string;
+  is_preview_suffix_enabled?: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Coolify response listing the storages of an application.
+ */
+export interface CoolifyStorageListResponse {
+  persistent_storages: CoolifyStorage[];
+  file_storages: unknown[];
+}
+
+/**
+ * Options for creating a persistent storage on an application.
+ */
+export interface CoolifyCreateStorageOptions {
+  type: "persistent";
+  name: string;
+  mount_path: string;
+  host_path?: string;
+}
+
+/**
+ * Options for updating a persistent storage, identified by its UUID.
+ */
+export interface CoolifyUpdateStorageOptions {
+  uuid: string;
+  type: "persistent";
+  name?: string;
+  mount_path?: string;
+  host_path?: string | null;
+}
+
+/**
+ * Coolify scheduled task structure: a command run in an application container on a cron schedule.
+ */
+export interface CoolifyScheduledTask {
+  id: number;
+  uuid: string;
+  name: string;
+  command: string;
+  frequency: string;
+  container: string | null;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Options for creating or updating a scheduled task.
+ */
+export interface CoolifyScheduledTaskOptions {
+  name: string;
+  command: string;
+  frequency: string;
+  container?: string;
+  enabled?: boolean;
+}
+
 /**
  * Coolify API error response structure.
  */
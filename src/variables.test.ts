@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { interpolateManifest, interpolateString, parseVariableAssignment } from "./variables";
+
+describe("interpolateString", () => {
+  it("should replace known variables", () => {
+    expect(interpolateString("ghcr.io/${OWNER}/app:${TAG}", { OWNER: "acme", TAG: "v1" })).toEqual({
+      value: "ghcr.io/acme/app:v1",
+      missing: [],
+    });
+  });
+
+  it("should use defaults for unset or empty variables", () => {
+    expect(interpolateString("${REGION:-eu}-${ZONE:-a}", { ZONE: "" }).value).toBe("eu-a");
+    expect(interpolateString("${REGION:-eu}", { REGION: "us" }).value).toBe("us");
+  });
+
+  it("should report unresolved variables", () => {
+    expect(interpolateString("${MISSING}/${OTHER:-}", {})).toEqual({ value: "${MISSING}/", missing: ["MISSING"] });
+  });
+
+  it("should keep escaped placeholders literal", () => {
+    expect(interpolateString("$${HOME}", { HOME: "/root" }).value).toBe("${HOME}");
+  });
+});
+
+describe("interpolateManifest", () => {
+  it("should interpolate nested values and report paths", () => {
+    const result = interpolateManifest(
+      { projectId: "${PROJECT}", resources: [{ name: "api", domains: "${API_DOMAIN}" }] },
+      { PROJECT: "project-uuid" },
+    );
+
+    expect(result.data).toEqual({ projectId: "project-uuid", resources: [{ name: "api", domains: "${API_DOMAIN}" }] });
+    expect(result.issues).toEqual([
+      {
+        path: ["resources", 0, "domains"],
+        message: 'Unresolved variable "API_DOMAIN" (set it in the environment or with --var)',
+      },
+    ]);
+  });
+
+  it("should only interpolate the selected environment", () => {
+    const data = {
+      environments: { staging: { serverId: "${STAGING_SERVER}" }, production: { serverId: "${SERVER}" } },
+    };
+    const result = interpolateManifest(data, { SERVER: "server-uuid" }, "production");
+
+    expect(result.issues).toEqual([]);
+    expect(result.data).toEqual({
+      environments: { staging: { serverId: "${STAGING_SERVER}" }, production: { serverId: "server-uuid" } },
+    });
+  });
+});
+
+describe("parseVariableAssignment", () => {
+  it("should split on the first equals sign", () => {
+    expect(parseVariableAssignment("QUERY=a=b")).toEqual(["QUERY", "a=b"]);
+    expect(parseVariableAssignment("EMPTY=")).toEqual(["EMPTY", ""]);
+  });
+
+  it("should reject assignments without a valid key", () => {
+    expect(() => parseVariableAssignment("NO_VALUE")).toThrow("Expected key=value");
+    expect(() => parseVariableAssignment("1BAD=x")).toThrow("Expected key=value");
+  });
+});
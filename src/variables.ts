@@ -0,0 +1,121 @@
+/**
+ * Variables available to manifest placeholders.
+ */
+export type ManifestVariables = Record<string, string | undefined>;
+
+/**
+ * A placeholder that could not be resolved.
+ */
+export interface InterpolationIssue {
+  path: PropertyKey[];
+  message: string;
+}
+
+/**
+ * Result of interpolating a manifest document.
+ */
+export interface InterpolationResult {
+  data: unknown;
+  issues: InterpolationIssue[];
+}
+
+/**
+ * Matches `$${` (an escaped placeholder), `${VAR}` and `${VAR:-default}`.
+ */
+const PLACEHOLDER_PATTERN = /\$\$\{|\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * Resolves `${VAR}` and `${VAR:-default}` placeholders in a string.
+ * Defaults are used when the variable is unset or empty. `$${` produces a literal `${`.
+ * Returns the interpolated string and the names of variables that could not be resolved.
+ */
+export function interpolateString(value: string, variables: ManifestVariables): { value: string; missing: string[] } {
+  const missing: string[] = [];
+
+  const result = value.replace(PLACEHOLDER_PATTERN, (match, name: string | undefined, fallback: string | undefined) => {
+    if (name === undefined) {
+      return "${";
+    }
+    const resolved = variables[name];
+    if (resolved !== undefined && resolved !== "") {
+      return resolved;
+    }
+    if (fallback !== undefined) {
+      return fallback;
+    }
+    missing.push(name);
+    return match;
+  });
+
+  return { value: result, missing };
+}
+
+function interpolateValue(
+  value: unknown,
+  variables: ManifestVariables,
+  path: PropertyKey[],
+  issues: InterpolationIssue[],
+): unknown {
+  if (typeof value === "string") {
+    const { value: result, missing } = interpolateString(value, variables);
+    for (const name of missing) {
+      issues.push({ path, message: `Unresolved variable "${name}" (set it in the environment or with --var)` });
+    }
+    return result;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolateValue(item, variables, [...path, index], issues));
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateValue(item, variables, [...path, key], issues)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Resolves placeholders in every string value of a raw manifest.
+ * Entries in `environments` other than the selected one are left untouched so their
+ * variables are only required when that environment is deployed.
+ */
+export function interpolateManifest(
+  data: unknown,
+  variables: ManifestVariables,
+  environment?: string,
+): InterpolationResult {
+  const issues: InterpolationIssue[] = [];
+
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return { data: interpolateValue(data, variables, [], issues), issues };
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (key === "environments" && typeof value === "object" && value !== null && !Array.isArray(value)) {
+      result[key] = Object.fromEntries(
+        Object.entries(value).map(([name, overlay]) => [
+          name,
+          name === environment ? interpolateValue(overlay, variables, [key, name], issues) : overlay,
+        ]),
+      );
+    } else {
+      result[key] = interpolateValue(value, variables, [key], issues);
+    }
+  }
+
+  return { data: result, issues };
+}
+
+/**
+ * Parses a `key=value` pair given on the command line.
+ * @throws {Error} if the pair has no `=` or an invalid key
+ */
+export function parseVariableAssignment(assignment: string): [string, string] {
+  const index = assignment.indexOf("=");
+  const key = index === -1 ? "" : assignment.slice(0, index);
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+    throw new Error(`Invalid variable "${assignment}". Expected key=value.`);
+  }
+  return [key, assignment.slice(index + 1)];
+}